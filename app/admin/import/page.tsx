@@ -0,0 +1,33 @@
+/**
+ * Import Events Page
+ * Bulk upload of events from CSV or JSON, authorized by an API key
+ */
+
+import type { Metadata } from "next";
+import EventImportForm from "@/components/EventImportForm";
+
+export const metadata: Metadata = {
+  title: "Import Events",
+  robots: { index: false },
+};
+
+export default function ImportEventsPage() {
+  return (
+    <div className="min-h-screen py-12">
+      <div className="container mx-auto max-w-2xl px-5 sm:px-10">
+        {/* Header */}
+        <div className="mb-8 text-center">
+          <h1 className="text-gradient mb-2 text-4xl font-bold sm:text-5xl">
+            Import Events
+          </h1>
+          <p className="text-light-200 text-sm">
+            Upload a whole lineup at once. Run a dry run first to check every
+            row.
+          </p>
+        </div>
+
+        <EventImportForm />
+      </div>
+    </div>
+  );
+}
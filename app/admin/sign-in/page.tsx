@@ -0,0 +1,77 @@
+/**
+ * Organizer Sign-In Page
+ * Organizers sign in with an API key to create, edit and delete their events
+ */
+
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import Link from "next/link";
+import OrganizerSignInForm from "@/components/OrganizerSignInForm";
+import { signOut } from "@/lib/actions/organizers";
+import { getOrganizer } from "@/lib/organizer-session";
+
+export const metadata: Metadata = {
+  title: "Organizer Sign In",
+  robots: { index: false },
+};
+
+// Separate async component, since the session depends on the request
+const SignInContent = async () => {
+  const organizer = await getOrganizer();
+
+  if (!organizer) {
+    return <OrganizerSignInForm />;
+  }
+
+  return (
+    <div className="card-shadow flex flex-col gap-4 rounded-xl bg-dark-100 p-6 sm:p-8">
+      <p className="text-sm">
+        Signed in as <strong>{organizer.owner}</strong> with the key{" "}
+        <strong>{organizer.name}</strong>.
+      </p>
+
+      <div className="flex flex-wrap gap-4 text-sm">
+        <Link href="/events/new" className="text-primary">
+          Create an event
+        </Link>
+        <Link href="/admin/import" className="text-primary">
+          Import events
+        </Link>
+      </div>
+
+      <form action={signOut}>
+        <button
+          type="submit"
+          className="rounded-[6px] border border-dark-200 bg-dark-200/50 px-4 py-2 text-sm text-light-100 transition hover:bg-dark-200"
+        >
+          Sign Out
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default function OrganizerSignInPage() {
+  return (
+    <div className="min-h-screen py-12">
+      <div className="container mx-auto max-w-2xl px-5 sm:px-10">
+        {/* Header */}
+        <div className="mb-8 text-center">
+          <h1 className="text-gradient mb-2 text-4xl font-bold sm:text-5xl">
+            Organizer Sign In
+          </h1>
+          <p className="text-light-200 text-sm">
+            Events you create while signed in belong to the key&apos;s owner,
+            and only they can edit or delete them
+          </p>
+        </div>
+
+        <Suspense
+          fallback={<p className="text-center text-gray-500">Loading...</p>}
+        >
+          <SignInContent />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import type { NextRequest } from "next/server";
+import connectDB from "@/database/mongodb";
+import { apiError, apiOptions, CORS_HEADERS } from "@/lib/api";
+import { authenticateApiKey } from "@/lib/api-auth";
+import { exportAttendees, getEventAttendees } from "@/lib/attendees";
+import { attendeeExportFormatSchema } from "@/lib/validation/attendees";
+
+/**
+ * Export Attendees
+ * An event's bookings as JSON, CSV or XLSX. Needs an API key with the
+ * attendees:read scope whose owner also owns the event
+ *
+ * @example
+ * curl "/api/events/react-summit-2025/attendees?format=csv" \
+ *   -H "Authorization: Bearer $DEVEVENT_API_KEY" -o attendees.csv
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const auth = await authenticateApiKey(request, "attendees:read");
+
+  if (!auth.ok) {
+    return apiError(auth);
+  }
+
+  const format = attendeeExportFormatSchema.safeParse(
+    request.nextUrl.searchParams.get("format") ?? "json"
+  );
+
+  if (!format.success) {
+    return apiError({
+      ok: false,
+      code: "VALIDATION_ERROR",
+      message: format.error.issues[0].message,
+      issues: format.error.issues,
+    });
+  }
+
+  await connectDB();
+
+  const result = await getEventAttendees((await params).slug, auth.data.owner);
+
+  if (!result.ok) {
+    return apiError(result);
+  }
+
+  const file = exportAttendees(result.data, format.data);
+
+  // Attendee emails are personal data; never store them in shared caches
+  return new Response(file.body, {
+    headers: {
+      ...CORS_HEADERS,
+      "Content-Type": file.contentType,
+      "Cache-Control": "private, no-store",
+      ...(format.data !== "json" && {
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+      }),
+    },
+  });
+}
+
+export const OPTIONS = apiOptions;
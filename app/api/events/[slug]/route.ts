@@ -0,0 +1,24 @@
+import { getEventBySlug } from "@/lib/actions/events";
+import { apiError, apiJson, apiOptions } from "@/lib/api";
+
+/**
+ * Get Event
+ * A single event by slug
+ *
+ * @example
+ * GET /api/events/react-summit-2025
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const result = await getEventBySlug((await params).slug);
+
+  if (!result.ok) {
+    return apiError(result);
+  }
+
+  return apiJson(request, result.data, new Date(result.data.updatedAt));
+}
+
+export const OPTIONS = apiOptions;
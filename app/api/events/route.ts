@@ -0,0 +1,171 @@
+import type { NextRequest } from "next/server";
+import { listEvents } from "@/lib/actions/events";
+import { apiError, apiJson, apiOptions, CORS_HEADERS } from "@/lib/api";
+import { authenticateApiKey } from "@/lib/api-auth";
+import { insertEvent, insertEventFromObject } from "@/lib/event-creation";
+import { fetchImageFile } from "@/lib/image-files";
+import { absoluteUrl } from "@/lib/site";
+import type { ActionResult } from "@/lib/types/actions";
+import type { EventDTO } from "@/lib/types/dtos";
+import { createEventSchema } from "@/lib/validation/events";
+
+/**
+ * List Events
+ * Filtered, cursor-paginated events, accepting the same query parameters as
+ * the /events page plus limit
+ *
+ * @example
+ * GET /api/events?tag=react&when=upcoming&limit=20
+ */
+export async function GET(request: NextRequest) {
+  const result = await listEvents(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+
+  if (!result.ok) {
+    return apiError(result);
+  }
+
+  // The page changes whenever any event on it does
+  const lastModified = result.data.events.reduce<Date | undefined>(
+    (latest, event) => {
+      const updatedAt = new Date(event.updatedAt);
+      return !latest || updatedAt > latest ? updatedAt : latest;
+    },
+    undefined
+  );
+
+  return apiJson(request, result.data, lastModified);
+}
+
+/**
+ * Utility: Download the image named by imageUrl
+ */
+async function resolveImageUrl(imageUrl: unknown): Promise<ActionResult<File>> {
+  if (typeof imageUrl !== "string" || !imageUrl) {
+    return {
+      ok: false,
+      code: "VALIDATION_ERROR",
+      message: "Provide an image file or an imageUrl",
+    };
+  }
+
+  try {
+    return { ok: true, data: await fetchImageFile(imageUrl) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      ok: false,
+      code: "VALIDATION_ERROR",
+      message: `Could not use imageUrl: ${message}`,
+    };
+  }
+}
+
+/**
+ * Utility: Create an event from a JSON body with an imageUrl
+ */
+async function createFromJson(
+  request: Request,
+  owner: string
+): Promise<ActionResult<EventDTO>> {
+  let body: { imageUrl?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return {
+      ok: false,
+      code: "VALIDATION_ERROR",
+      message: "Request body must be valid JSON",
+    };
+  }
+
+  const validated = createEventSchema.safeParse(body);
+
+  if (!validated.success) {
+    return {
+      ok: false,
+      code: "VALIDATION_ERROR",
+      message: validated.error.issues[0].message,
+      issues: validated.error.issues,
+    };
+  }
+
+  const image = await resolveImageUrl(body.imageUrl);
+
+  if (!image.ok) {
+    return image;
+  }
+
+  return insertEventFromObject(validated.data, image.data, owner);
+}
+
+/**
+ * Utility: Create an event from multipart fields, like the site form
+ * The image is either an uploaded file or an imageUrl field
+ */
+async function createFromMultipart(
+  request: Request,
+  owner: string
+): Promise<ActionResult<EventDTO>> {
+  const formData = await request.formData();
+  const imageFile = formData.get("image");
+
+  if (!(imageFile instanceof File) || imageFile.size === 0) {
+    const image = await resolveImageUrl(formData.get("imageUrl"));
+
+    if (!image.ok) {
+      return image;
+    }
+
+    formData.set("image", image.data);
+  }
+
+  return insertEvent(formData, owner);
+}
+
+/**
+ * Create Event
+ * Requires an API key with the events:write scope. Accepts JSON with an
+ * imageUrl, or multipart form data with an image file or imageUrl; agenda
+ * and tags are JSON arrays in both cases
+ *
+ * @example
+ * curl -X POST /api/events \
+ *   -H "Authorization: Bearer $DEVEVENT_API_KEY" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{"title": "...", "imageUrl": "https://..."}'
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateApiKey(request, "events:write");
+
+  if (!auth.ok) {
+    return apiError(auth);
+  }
+
+  const contentType = request.headers.get("content-type") ?? "";
+
+  const result = contentType.startsWith("application/json")
+    ? await createFromJson(request, auth.data.owner)
+    : contentType.startsWith("multipart/form-data")
+    ? await createFromMultipart(request, auth.data.owner)
+    : ({
+        ok: false,
+        code: "VALIDATION_ERROR",
+        message: "Send the event as application/json or multipart/form-data",
+      } as const);
+
+  if (!result.ok) {
+    return apiError(result);
+  }
+
+  return Response.json(result.data, {
+    status: 201,
+    headers: {
+      ...CORS_HEADERS,
+      Location: absoluteUrl(`/api/events/${result.data.slug}`),
+    },
+  });
+}
+
+export const OPTIONS = apiOptions;
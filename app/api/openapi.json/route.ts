@@ -0,0 +1,10 @@
+import { CORS_HEADERS } from "@/lib/api";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+/**
+ * OpenAPI Specification
+ * Machine-readable description of the public API, for client generators
+ */
+export async function GET() {
+  return Response.json(buildOpenApiDocument(), { headers: CORS_HEADERS });
+}
@@ -0,0 +1,59 @@
+import { apiError, apiOptions, CORS_HEADERS } from "@/lib/api";
+import { authenticateApiKey } from "@/lib/api-auth";
+import { deleteWebhook, getWebhook } from "@/lib/webhook-registry";
+
+/**
+ * Get Webhook
+ * A webhook with its most recent deliveries; needs the webhooks:manage scope
+ *
+ * @example
+ * curl /api/webhooks/<id> -H "Authorization: Bearer $DEVEVENT_API_KEY"
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateApiKey(request, "webhooks:manage");
+
+  if (!auth.ok) {
+    return apiError(auth);
+  }
+
+  const result = await getWebhook(auth.data.owner, (await params).id);
+
+  if (!result.ok) {
+    return apiError(result);
+  }
+
+  return Response.json(result.data, {
+    headers: { ...CORS_HEADERS, "Cache-Control": "private, no-store" },
+  });
+}
+
+/**
+ * Delete Webhook
+ * Stops all further deliveries; needs the webhooks:manage scope
+ *
+ * @example
+ * curl -X DELETE /api/webhooks/<id> -H "Authorization: Bearer $DEVEVENT_API_KEY"
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateApiKey(request, "webhooks:manage");
+
+  if (!auth.ok) {
+    return apiError(auth);
+  }
+
+  const result = await deleteWebhook(auth.data.owner, (await params).id);
+
+  if (!result.ok) {
+    return apiError(result);
+  }
+
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export const OPTIONS = apiOptions;
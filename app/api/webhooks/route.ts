@@ -0,0 +1,73 @@
+import { apiError, apiOptions, CORS_HEADERS } from "@/lib/api";
+import { authenticateApiKey } from "@/lib/api-auth";
+import { createWebhook, listWebhooks } from "@/lib/webhook-registry";
+
+/**
+ * List Webhooks
+ * Webhooks owned by the API key's organizer; needs the webhooks:manage scope
+ *
+ * @example
+ * curl /api/webhooks -H "Authorization: Bearer $DEVEVENT_API_KEY"
+ */
+export async function GET(request: Request) {
+  const auth = await authenticateApiKey(request, "webhooks:manage");
+
+  if (!auth.ok) {
+    return apiError(auth);
+  }
+
+  const result = await listWebhooks(auth.data.owner);
+
+  if (!result.ok) {
+    return apiError(result);
+  }
+
+  // Per-key data must never be cached by shared caches
+  return Response.json(
+    { webhooks: result.data },
+    { headers: { ...CORS_HEADERS, "Cache-Control": "private, no-store" } }
+  );
+}
+
+/**
+ * Register Webhook
+ * Needs the webhooks:manage scope. The response carries the signing secret,
+ * which is not shown again
+ *
+ * @example
+ * curl -X POST /api/webhooks \
+ *   -H "Authorization: Bearer $DEVEVENT_API_KEY" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{"url": "https://example.com/hooks", "events": ["booking.created"]}'
+ */
+export async function POST(request: Request) {
+  const auth = await authenticateApiKey(request, "webhooks:manage");
+
+  if (!auth.ok) {
+    return apiError(auth);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError({
+      ok: false,
+      code: "VALIDATION_ERROR",
+      message: "Request body must be valid JSON",
+    });
+  }
+
+  const result = await createWebhook(auth.data.owner, body);
+
+  if (!result.ok) {
+    return apiError(result);
+  }
+
+  return Response.json(result.data, {
+    status: 201,
+    headers: { ...CORS_HEADERS, "Cache-Control": "private, no-store" },
+  });
+}
+
+export const OPTIONS = apiOptions;
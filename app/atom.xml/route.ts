@@ -0,0 +1,25 @@
+import { listEvents } from "@/lib/actions/events";
+import { buildAtomFeed, FEED_ITEMS_LIMIT } from "@/lib/feeds";
+
+/**
+ * Atom Feed
+ * Most recently published events as Atom 1.0
+ */
+export async function GET() {
+  const result = await listEvents({ sort: "newest", limit: FEED_ITEMS_LIMIT });
+
+  if (!result.ok) {
+    return new Response(result.message, { status: 500 });
+  }
+
+  const feed = buildAtomFeed(result.data.events, {
+    title: "DevEvent",
+    description: "Newly published developer events",
+    path: "/events",
+    selfPath: "/atom.xml",
+  });
+
+  return new Response(feed, {
+    headers: { "Content-Type": "application/atom+xml; charset=utf-8" },
+  });
+}
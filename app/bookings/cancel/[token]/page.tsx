@@ -0,0 +1,55 @@
+import { Suspense } from "react";
+import Link from "next/link";
+import { getBookingByCancellationToken } from "@/lib/actions/bookings";
+import CancelBookingForm from "@/components/CancelBookingForm";
+
+// Separate async component for the cancellation details
+const CancellationContent = async ({ token }: { token: string }) => {
+  const result = await getBookingByCancellationToken(token);
+
+  if (!result.ok) {
+    return (
+      <div className="flex flex-col gap-4">
+        <p className="text-sm">{result.message}</p>
+        <Link href="/" className="text-primary text-sm">
+          Browse events
+        </Link>
+      </div>
+    );
+  }
+
+  const { booking, event } = result.data;
+  const spot = booking.status === "waitlisted" ? "waitlist spot" : "booking";
+
+  return (
+    <div className="flex flex-col gap-6">
+      <p className="text-sm">
+        Cancel the {spot} for <strong>{booking.email}</strong> at <strong>{event.title}</strong>{" "}
+        on {event.date} at {event.time}?
+      </p>
+
+      <CancelBookingForm token={token} eventSlug={event.slug} />
+    </div>
+  );
+};
+
+const CancelBookingPage = async ({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) => {
+  return (
+    <section id="cancel-booking">
+      <div className="signup-card">
+        <h2>Cancel Booking</h2>
+
+        <Suspense fallback={<p className="text-sm">Loading booking...</p>}>
+          {/* Tokens are base64url, so the segment never needs decoding */}
+          <CancellationContent token={(await params).token} />
+        </Suspense>
+      </div>
+    </section>
+  );
+};
+
+export default CancelBookingPage;
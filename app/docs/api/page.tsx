@@ -0,0 +1,192 @@
+import type { Metadata } from "next";
+import type { JSONSchema } from "zod/v4/core";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+export const metadata: Metadata = {
+  title: "API Reference",
+  description: "Endpoints and data types of the DevEvent API",
+};
+
+type Schema = JSONSchema.JSONSchema;
+
+interface Operation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  parameters?: {
+    name: string;
+    in: string;
+    required?: boolean;
+    schema: Schema;
+  }[];
+  security?: unknown[];
+  requestBody?: { content: Record<string, { schema: Schema }> };
+  responses: Record<string, { description: string }>;
+}
+
+/**
+ * Utility: One-line summary of a JSON Schema, e.g. "integer (1–50)"
+ */
+function describeSchema(schema: Schema): string {
+  if (schema.$ref) {
+    return schema.$ref.split("/").pop() ?? schema.$ref;
+  }
+
+  if (schema.anyOf) {
+    return schema.anyOf
+      .map((option) =>
+        typeof option === "object" ? describeSchema(option) : ""
+      )
+      .join(" | ");
+  }
+
+  if (schema.enum) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+
+  if (schema.type === "array" && typeof schema.items === "object") {
+    return `${describeSchema(schema.items as Schema)}[]`;
+  }
+
+  const limits = [
+    schema.minimum !== undefined && `min ${schema.minimum}`,
+    schema.maximum !== undefined &&
+      schema.maximum < Number.MAX_SAFE_INTEGER &&
+      `max ${schema.maximum}`,
+    schema.minLength !== undefined && `${schema.minLength}+ chars`,
+    schema.maxLength !== undefined && `≤ ${schema.maxLength} chars`,
+    schema.format,
+    schema.pattern && `/${schema.pattern}/`,
+    schema.default !== undefined && `default ${JSON.stringify(schema.default)}`,
+  ].filter(Boolean);
+
+  const type = Array.isArray(schema.type)
+    ? schema.type.join(" | ")
+    : schema.type ?? "any";
+
+  return limits.length > 0 ? `${type} (${limits.join(", ")})` : type;
+}
+
+const ApiDocsPage = () => {
+  const spec = buildOpenApiDocument();
+  const operations = Object.entries(spec.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => ({
+      path,
+      method,
+      operation: operation as Operation,
+    }))
+  );
+
+  return (
+    <section id="api-docs">
+      <h1>{spec.info.title}</h1>
+      <p>{spec.info.description}</p>
+      <p className="text-sm">
+        Base URL: <code>{spec.servers[0].url}</code> ·{" "}
+        <a href="/api/openapi.json" className="text-primary">
+          OpenAPI {spec.openapi} document
+        </a>
+      </p>
+
+      <h2>Endpoints</h2>
+      {operations.map(({ path, method, operation }) => (
+        <article key={operation.operationId} id={operation.operationId}>
+          <h3>
+            <span className="method">{method.toUpperCase()}</span>{" "}
+            <code>{path}</code>
+          </h3>
+          <p>{operation.summary}</p>
+          {operation.description && <p>{operation.description}</p>}
+          {operation.security && (
+            <p className="text-sm">
+              Requires <code>Authorization: Bearer &lt;API key&gt;</code>
+            </p>
+          )}
+
+          {operation.requestBody && (
+            <ul>
+              {Object.entries(operation.requestBody.content).map(
+                ([mediaType, { schema }]) => (
+                  <li key={mediaType}>
+                    Body <code>{mediaType}</code>: {describeSchema(schema)}
+                  </li>
+                )
+              )}
+            </ul>
+          )}
+
+          {operation.parameters && (
+            <table>
+              <thead>
+                <tr>
+                  <th>Parameter</th>
+                  <th>In</th>
+                  <th>Type</th>
+                </tr>
+              </thead>
+              <tbody>
+                {operation.parameters.map((parameter) => (
+                  <tr key={`${parameter.in}-${parameter.name}`}>
+                    <td>
+                      <code>{parameter.name}</code>
+                      {parameter.required && " *"}
+                    </td>
+                    <td>{parameter.in}</td>
+                    <td>{describeSchema(parameter.schema)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <ul>
+            {Object.entries(operation.responses).map(([status, response]) => (
+              <li key={status}>
+                <code>{status}</code> {response.description}
+              </li>
+            ))}
+          </ul>
+        </article>
+      ))}
+
+      <h2>Schemas</h2>
+      {Object.entries(spec.components.schemas).map(([name, schema]) => (
+        <article key={name} id={`schema-${name}`}>
+          <h3>
+            <code>{name}</code>
+          </h3>
+
+          <table>
+            <thead>
+              <tr>
+                <th>Field</th>
+                <th>Type</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(schema.properties ?? {}).map(
+                ([field, property]) => (
+                  <tr key={field}>
+                    <td>
+                      <code>{field}</code>
+                      {schema.required?.includes(field) && " *"}
+                    </td>
+                    <td>
+                      {typeof property === "object"
+                        ? describeSchema(property)
+                        : "any"}
+                    </td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+        </article>
+      ))}
+
+      <p className="text-sm">* required</p>
+    </section>
+  );
+};
+
+export default ApiDocsPage;
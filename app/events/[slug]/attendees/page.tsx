@@ -0,0 +1,69 @@
+/**
+ * Event Attendees Page
+ * Organizer view for listing and exporting an event's attendees
+ */
+
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import { notFound } from "next/navigation";
+import AttendeeExport from "@/components/AttendeeExport";
+import { getEventBySlug } from "@/lib/actions/events";
+
+export const metadata: Metadata = {
+  title: "Attendees",
+  robots: { index: false },
+};
+
+// Separate async component for loading the event being exported
+const AttendeesContent = async ({ slug }: { slug: string }) => {
+  const result = await getEventBySlug(slug);
+
+  // Handle not found
+  if (!result.ok) {
+    if (result.code === "NOT_FOUND") {
+      notFound();
+    }
+
+    // Handle other errors
+    return <p className="text-center text-red-500">{result.message}</p>;
+  }
+
+  return (
+    <>
+      <p className="text-light-200 mb-6 text-center text-sm">
+        {result.data.title} · {result.data.date} at {result.data.time}
+      </p>
+      <AttendeeExport slug={result.data.slug} />
+    </>
+  );
+};
+
+export default async function EventAttendeesPage({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  return (
+    <div className="min-h-screen py-12">
+      <div className="container mx-auto max-w-2xl px-5 sm:px-10">
+        {/* Header */}
+        <div className="mb-8 text-center">
+          <h1 className="text-gradient mb-2 text-4xl font-bold sm:text-5xl">
+            Attendees
+          </h1>
+          <p className="text-light-200 text-sm">
+            Only the event&apos;s owner can view and export its attendees
+          </p>
+        </div>
+
+        <Suspense
+          fallback={
+            <p className="text-center text-gray-500">Loading event...</p>
+          }
+        >
+          <AttendeesContent slug={(await params).slug} />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
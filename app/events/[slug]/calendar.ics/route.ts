@@ -0,0 +1,29 @@
+import { getEventBySlug } from "@/lib/actions/events";
+import { buildCalendar } from "@/lib/ical";
+
+/**
+ * Event Calendar File
+ * Serves a single event as an iCalendar (.ics) download
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  const result = await getEventBySlug(slug);
+
+  if (!result.ok) {
+    return new Response(result.message, {
+      status: result.code === "NOT_FOUND" ? 404 : 500,
+    });
+  }
+
+  const event = result.data;
+
+  return new Response(buildCalendar([event]), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${event.slug}.ics"`,
+    },
+  });
+}
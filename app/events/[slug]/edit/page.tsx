@@ -0,0 +1,70 @@
+/**
+ * Edit Event Page
+ * Renders the shared event form prefilled with an existing event, for the
+ * event's owner only
+ */
+
+import { Suspense } from "react";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import EventForm from "@/components/EventForm";
+import { getEventBySlug } from "@/lib/actions/events";
+import { canManageEvent } from "@/lib/organizer-session";
+
+// Separate async component for loading the event into the form
+const EditEventContent = async ({ slug }: { slug: string }) => {
+  const result = await getEventBySlug(slug);
+
+  // Handle not found
+  if (!result.ok) {
+    if (result.code === "NOT_FOUND") {
+      notFound();
+    }
+
+    // Handle other errors
+    return <p className="text-center text-red-500">{result.message}</p>;
+  }
+
+  if (!(await canManageEvent(result.data._id))) {
+    return (
+      <p className="text-center text-sm">
+        Only the event&apos;s owner can edit it.{" "}
+        <Link href="/admin/sign-in" className="text-primary">
+          Sign in as an organizer
+        </Link>
+      </p>
+    );
+  }
+
+  return <EventForm event={result.data} />;
+};
+
+export default async function EditEventPage({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  return (
+    <div className="min-h-screen py-12">
+      <div className="container mx-auto max-w-2xl px-5 sm:px-10">
+        {/* Header */}
+        <div className="mb-8 text-center">
+          <h1 className="text-gradient mb-2 text-4xl font-bold sm:text-5xl">
+            Edit Event
+          </h1>
+          <p className="text-light-200 text-sm">
+            Update the details of your event
+          </p>
+        </div>
+
+        <Suspense
+          fallback={
+            <p className="text-center text-gray-500">Loading event...</p>
+          }
+        >
+          <EditEventContent slug={(await params).slug} />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
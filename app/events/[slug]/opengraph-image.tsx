@@ -0,0 +1,159 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { ImageResponse } from "next/og";
+import { notFound } from "next/navigation";
+import { getEventBySlug } from "@/lib/actions/events";
+
+export const alt = "DevEvent event details";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+/**
+ * Badge colors for each event mode
+ */
+const MODE_COLORS: Record<string, string> = {
+  online: "#94eaff",
+  offline: "#59deca",
+  hybrid: "#e7f2ff",
+};
+
+/**
+ * How long each Google Fonts request may take before the default font is used
+ */
+const FONT_FETCH_TIMEOUT_MS = 3000;
+
+/**
+ * Utility: Load a Google font subset as TrueType for ImageResponse
+ * Same families as layout.tsx; returns null so a failed or slow fetch only
+ * falls back to the default font instead of breaking the image
+ */
+async function loadGoogleFont(
+  family: string,
+  weight: number,
+  text: string
+): Promise<ArrayBuffer | null> {
+  try {
+    const query = `family=${family.replace(/ /g, "+")}:wght@${weight}`;
+    const subset = encodeURIComponent(text);
+    const url = `https://fonts.googleapis.com/css2?${query}&text=${subset}`;
+
+    // Without a browser user agent Google serves TrueType, which Satori reads
+    const css = await (
+      await fetch(url, { signal: AbortSignal.timeout(FONT_FETCH_TIMEOUT_MS) })
+    ).text();
+    const source = css.match(/src: url\((.+?)\) format\('truetype'\)/);
+
+    if (!source) {
+      return null;
+    }
+
+    const font = await fetch(source[1], {
+      signal: AbortSignal.timeout(FONT_FETCH_TIMEOUT_MS),
+    });
+    return font.ok ? font.arrayBuffer() : null;
+  } catch (error) {
+    console.error(`[opengraph-image] Failed to load ${family}:`, error);
+    return null;
+  }
+}
+
+// Branded 1200x630 share card for an event
+export default async function OpengraphImage({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const result = await getEventBySlug((await params).slug);
+
+  if (!result.ok) {
+    notFound();
+  }
+
+  const event = result.data;
+  const details = `${event.date} · ${event.time} · ${event.location}`;
+
+  const [logo, titleFont, monoFont] = await Promise.all([
+    readFile(join(process.cwd(), "public/icons/logo.png"), "base64"),
+    loadGoogleFont("Schibsted Grotesk", 700, `DevEvent${event.title}`),
+    // The badge is uppercased, so subset the uppercase glyphs too
+    loadGoogleFont("Martian Mono", 400, details + event.mode.toUpperCase()),
+  ]);
+
+  const fonts = [
+    titleFont && {
+      name: "Schibsted Grotesk",
+      data: titleFont,
+      weight: 700 as const,
+    },
+    monoFont && { name: "Martian Mono", data: monoFont, weight: 400 as const },
+  ].filter((font) => font !== null);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: 72,
+          background: "linear-gradient(135deg, #030708 0%, #182830 100%)",
+          color: "#e7f2ff",
+          fontFamily: "Schibsted Grotesk",
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "center", gap: 16 }}>
+          <img
+            src={`data:image/png;base64,${logo}`}
+            alt=""
+            width={48}
+            height={48}
+          />
+          <span style={{ fontSize: 36, fontWeight: 700 }}>DevEvent</span>
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", gap: 28 }}>
+          <div
+            style={{
+              display: "flex",
+              alignSelf: "flex-start",
+              padding: "8px 20px",
+              borderRadius: 6,
+              background: MODE_COLORS[event.mode] ?? "#e7f2ff",
+              color: "#030708",
+              fontFamily: "Martian Mono",
+              fontSize: 24,
+              textTransform: "uppercase",
+            }}
+          >
+            {event.mode}
+          </div>
+
+          <div
+            style={{
+              display: "flex",
+              fontSize: event.title.length > 60 ? 56 : 72,
+              fontWeight: 700,
+              lineHeight: 1.1,
+            }}
+          >
+            {event.title}
+          </div>
+
+          <div
+            style={{
+              display: "flex",
+              fontFamily: "Martian Mono",
+              fontSize: 28,
+              color: "#bdbdbd",
+            }}
+          >
+            {details}
+          </div>
+        </div>
+      </div>
+    ),
+    { ...size, fonts }
+  );
+}
@@ -1,13 +1,20 @@
+import type { Metadata } from "next";
 import { notFound } from "next/navigation";
+import { connection } from "next/server";
+import { getBookingCountForEvent } from "@/lib/actions/bookings";
 import {
   getAllEvents,
   getEventBySlug,
   getSimilarEventsBySlug,
 } from "@/lib/actions/events";
 import Image from "next/image";
+import Link from "next/link";
 import BookEvent from "@/components/BookEvent";
 import EventCard from "@/components/EventCard";
 import { Suspense } from "react";
+import { isPastEvent } from "@/lib/event-dates";
+import { canManageEvent } from "@/lib/organizer-session";
+import { buildEventJsonLd, serializeJsonLd } from "@/lib/structured-data";
 
 const EventDetailItem = ({
   icon,
@@ -48,6 +55,30 @@ const EventTags = ({ tags }: { tags: string[] }) => (
   </div>
 );
 
+// Edit and attendee links, shown to the event's owner only
+const OwnerLinks = async ({
+  eventId,
+  slug,
+}: {
+  eventId: string;
+  slug: string;
+}) => {
+  if (!(await canManageEvent(eventId))) {
+    return null;
+  }
+
+  return (
+    <>
+      <Link href={`/events/${slug}/edit`} className="text-primary">
+        Edit event
+      </Link>
+      <Link href={`/events/${slug}/attendees`} className="text-primary">
+        Attendees
+      </Link>
+    </>
+  );
+};
+
 // Separate async component for event content
 const EventContent = async ({ slug }: { slug: string }) => {
   const result = await getEventBySlug(slug);
@@ -67,14 +98,34 @@ const EventContent = async ({ slug }: { slug: string }) => {
   }
 
   const event = result.data;
-  const bookings = 10;
+  const bookingCount = await getBookingCountForEvent(event._id);
+  const bookings = bookingCount.ok ? bookingCount.data.count : 0;
+  const seatsLeft =
+    event.capacity === null ? Infinity : Math.max(event.capacity - bookings, 0);
+
+  // Whether the event is over depends on today's date, so render per request
+  await connection();
+  const isPast = isPastEvent(event.date);
 
   return (
     <>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: serializeJsonLd(buildEventJsonLd(event)),
+        }}
+      />
+
       <div className="header">
         <h1>Event Description</h1>
 
         <p>{event.description}</p>
+
+        {isPast && <div className="pill">Past event</div>}
+
+        <Suspense fallback={null}>
+          <OwnerLinks eventId={event._id} slug={event.slug} />
+        </Suspense>
       </div>
 
       <div className="details">
@@ -122,6 +173,14 @@ const EventContent = async ({ slug }: { slug: string }) => {
               alt="audience"
               label={event.audience}
             />
+
+            <a
+              href={`/events/${event.slug}/calendar.ics`}
+              className="text-primary"
+              download
+            >
+              Add to calendar
+            </a>
           </section>
 
           <EventAgenda agendaItems={event.agenda} />
@@ -140,7 +199,11 @@ const EventContent = async ({ slug }: { slug: string }) => {
           <div className="signup-card">
             <h2>Book Your Spot</h2>
 
-            {bookings > 0 ? (
+            {isPast ? (
+              <p className="text-sm">
+                This event has already taken place, so bookings are closed.
+              </p>
+            ) : bookings > 0 ? (
               <p className="text-sm">
                 Join {bookings} people who have already booked their spot!
               </p>
@@ -148,7 +211,25 @@ const EventContent = async ({ slug }: { slug: string }) => {
               <p className="text-sm">Be the first to book your spot!</p>
             )}
 
-            <BookEvent />
+            {!isPast &&
+              event.capacity !== null &&
+              (seatsLeft > 0 ? (
+                <p className="text-sm">
+                  {seatsLeft} of {event.capacity} seats left
+                </p>
+              ) : (
+                <p className="text-sm">
+                  This event is fully booked. Join the waitlist and we&apos;ll
+                  give you a seat as soon as one opens up.
+                </p>
+              ))}
+
+            <BookEvent
+              eventId={event._id}
+              slug={event.slug}
+              isFull={seatsLeft <= 0}
+              isPast={isPast}
+            />
           </div>
         </aside>
       </div>
@@ -193,17 +274,62 @@ const SimilarEvents = async ({ slug }: { slug: string }) => {
   );
 };
 
-// Generate static params for all events
-export async function generateStaticParams() {
-  const result = await getAllEvents();
+// Per-event title, description and share previews
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}): Promise<Metadata> {
+  const result = await getEventBySlug((await params).slug);
 
   if (!result.ok) {
-    return [];
+    return { title: "Event not found" };
   }
 
-  return result.data.events.map((event) => ({
-    slug: event.slug,
-  }));
+  const event = result.data;
+  const description = `${event.date} at ${event.time} · ${event.location} · ${event.description}`;
+  const path = `/events/${event.slug}`;
+
+  // Share images come from the sibling opengraph-image route
+
+  return {
+    title: event.title,
+    description,
+    alternates: { canonical: path },
+    // Nested objects replace the layout's rather than merging with them
+    openGraph: {
+      siteName: "DevEvent",
+      type: "website",
+      title: event.title,
+      description,
+      url: path,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: event.title,
+      description,
+    },
+  };
+}
+
+// Generate static params for all events
+export async function generateStaticParams() {
+  const params: { slug: string }[] = [];
+  let cursor: string | undefined;
+
+  // Walk every page of events
+  do {
+    const result = await getAllEvents({ cursor, limit: 50 });
+
+    if (!result.ok) {
+      return params;
+    }
+
+    params.push(...result.data.events.map((event) => ({ slug: event.slug })));
+    cursor = result.data.nextCursor ?? undefined;
+  } while (cursor);
+
+  return params;
 }
 
 const EventDetails = async ({
@@ -0,0 +1,95 @@
+import { Suspense } from "react";
+import Link from "next/link";
+import EventCard from "@/components/EventCard";
+import { listEvents } from "@/lib/actions/events";
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+// Separate component for data fetching
+async function ArchiveResults({ cursor }: { cursor?: string }) {
+  // Most recent past events first
+  const result = await listEvents({ when: "past", sort: "date-desc", cursor });
+
+  // Handle error state
+  if (!result.ok) {
+    return (
+      <p className="text-center mt-5 text-red-500">
+        {result.code === "VALIDATION_ERROR"
+          ? result.message
+          : "Failed to load events. Please try again later."}
+      </p>
+    );
+  }
+
+  const { events, total, nextCursor } = result.data;
+
+  return (
+    <div className="space-y-7">
+      <p className="text-light-200 text-sm">
+        {total} past {total === 1 ? "event" : "events"}
+      </p>
+
+      <ul className="events">
+        {events.length > 0 ? (
+          events.map((event) => (
+            <li key={event._id} className="list-none">
+              <EventCard {...event} />
+            </li>
+          ))
+        ) : (
+          <li className="list-none text-center text-gray-500">
+            No past events yet
+          </li>
+        )}
+      </ul>
+
+      <div className="flex flex-row justify-between">
+        {cursor ? <Link href="/events/archive">← First page</Link> : <span />}
+
+        {nextCursor && (
+          <Link href={`/events/archive?cursor=${nextCursor}`}>Next page →</Link>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Reads the URL search params, so it must render inside Suspense
+async function ArchiveIndex({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const { cursor } = await searchParams;
+
+  return <ArchiveResults cursor={Array.isArray(cursor) ? cursor[0] : cursor} />;
+}
+
+const ArchivePage = ({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) => {
+  return (
+    <section id="events-index">
+      <h1 className="text-center">Past Events</h1>
+
+      <p className="text-center mt-5">
+        Events that have already taken place.{" "}
+        <Link href="/events?when=upcoming" className="text-primary">
+          See what&apos;s coming up →
+        </Link>
+      </p>
+
+      <Suspense
+        fallback={
+          <div className="text-center text-gray-500">Loading events...</div>
+        }
+      >
+        <ArchiveIndex searchParams={searchParams} />
+      </Suspense>
+    </section>
+  );
+};
+
+export default ArchivePage;
@@ -0,0 +1,41 @@
+import type { NextRequest } from "next/server";
+import { getFeedEvents } from "@/lib/actions/events";
+import { buildCalendar } from "@/lib/ical";
+
+/**
+ * Upcoming Events Calendar Feed
+ * Subscribable iCalendar feed, optionally filtered by tag, mode or location
+ *
+ * @example
+ * /events/feed.ics?tag=react&mode=online
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const filters = {
+    tag: searchParams.get("tag") ?? undefined,
+    mode: searchParams.get("mode") ?? undefined,
+    location: searchParams.get("location") ?? undefined,
+  };
+
+  const result = await getFeedEvents(filters);
+
+  if (!result.ok) {
+    return new Response(result.message, {
+      status: result.code === "VALIDATION_ERROR" ? 400 : 500,
+    });
+  }
+
+  const name = ["DevEvent", filters.tag, filters.mode, filters.location]
+    .filter(Boolean)
+    .join(" · ");
+
+  return new Response(
+    buildCalendar(result.data, { name, refreshInterval: "PT1H" }),
+    {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="devevent.ics"',
+      },
+    }
+  );
+}
@@ -0,0 +1,182 @@
+import { Suspense } from "react";
+import Link from "next/link";
+import EventCard from "@/components/EventCard";
+import EventFilters from "@/components/EventFilters";
+import { listEvents } from "@/lib/actions/events";
+import type { ListEventsQuery } from "@/lib/validation/events";
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+/**
+ * Search params understood by the listing, in URL order
+ */
+const QUERY_KEYS = [
+  "when",
+  "mode",
+  "tag",
+  "location",
+  "from",
+  "to",
+  "sort",
+  "cursor",
+] as const;
+
+/**
+ * Utility: Pick the listing query out of raw search params
+ */
+function toListQuery(searchParams: SearchParams): ListEventsQuery {
+  const query: ListEventsQuery = {};
+
+  for (const key of QUERY_KEYS) {
+    const value = searchParams[key];
+    const first = Array.isArray(value) ? value[0] : value;
+
+    if (first) {
+      query[key] = first;
+    }
+  }
+
+  return query;
+}
+
+/**
+ * Utility: Build a listing URL for the given query
+ */
+function toListHref(query: ListEventsQuery): string {
+  const params = new URLSearchParams();
+
+  for (const key of QUERY_KEYS) {
+    const value = query[key];
+
+    if (value !== undefined && value !== "") {
+      params.set(key, String(value));
+    }
+  }
+
+  const search = params.toString();
+  return search ? `/events?${search}` : "/events";
+}
+
+/**
+ * Utility: Build the calendar feed URL matching the current filters
+ */
+function toFeedHref(query: ListEventsQuery): string {
+  const params = new URLSearchParams();
+
+  for (const key of ["tag", "mode", "location"] as const) {
+    const value = query[key];
+
+    if (value !== undefined && value !== "") {
+      params.set(key, String(value));
+    }
+  }
+
+  const search = params.toString();
+  return search ? `/events/feed.ics?${search}` : "/events/feed.ics";
+}
+
+// Separate component for data fetching
+async function EventsResults({ query }: { query: ListEventsQuery }) {
+  const result = await listEvents(query);
+
+  // Handle error state
+  if (!result.ok) {
+    return (
+      <p className="text-center mt-5 text-red-500">
+        {result.code === "VALIDATION_ERROR"
+          ? result.message
+          : "Failed to load events. Please try again later."}
+      </p>
+    );
+  }
+
+  const { events, total, nextCursor } = result.data;
+
+  return (
+    <div className="space-y-7">
+      <p className="text-light-200 text-sm">
+        {total} {total === 1 ? "event" : "events"} found
+      </p>
+
+      <ul className="events">
+        {events.length > 0 ? (
+          events.map((event) => (
+            <li key={event._id} className="list-none">
+              <EventCard {...event} />
+            </li>
+          ))
+        ) : (
+          <li className="list-none text-center text-gray-500">
+            No events match these filters
+          </li>
+        )}
+      </ul>
+
+      <div className="flex flex-row justify-between">
+        {query.cursor ? (
+          <Link href={toListHref({ ...query, cursor: undefined })}>
+            ← First page
+          </Link>
+        ) : (
+          <span />
+        )}
+
+        {nextCursor && (
+          <Link href={toListHref({ ...query, cursor: nextCursor })}>
+            Next page →
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Reads the URL search params, so it must render inside Suspense
+async function EventsIndex({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const query = toListQuery(await searchParams);
+
+  return (
+    <>
+      <EventFilters values={query} />
+
+      <a href={toFeedHref(query)} className="text-primary text-sm">
+        Subscribe to upcoming events like these in your calendar
+      </a>
+      <EventsResults query={query} />
+    </>
+  );
+}
+
+const EventsPage = ({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) => {
+  return (
+    <section id="events-index">
+      <h1 className="text-center">All Events</h1>
+
+      <p className="text-center mt-5">
+        Filter by mode, tag, date and location to find your next event
+      </p>
+
+      <Link href="/events/archive" className="text-center text-primary">
+        Looking for past events? Browse the archive →
+      </Link>
+
+      <Suspense
+        fallback={
+          <div className="text-center text-gray-500">Loading events...</div>
+        }
+      >
+        <EventsIndex searchParams={searchParams} />
+      </Suspense>
+    </section>
+  );
+};
+
+export default EventsPage;
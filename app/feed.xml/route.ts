@@ -0,0 +1,25 @@
+import { listEvents } from "@/lib/actions/events";
+import { buildRssFeed, FEED_ITEMS_LIMIT } from "@/lib/feeds";
+
+/**
+ * RSS Feed
+ * Most recently published events as RSS 2.0
+ */
+export async function GET() {
+  const result = await listEvents({ sort: "newest", limit: FEED_ITEMS_LIMIT });
+
+  if (!result.ok) {
+    return new Response(result.message, { status: 500 });
+  }
+
+  const feed = buildRssFeed(result.data.events, {
+    title: "DevEvent",
+    description: "Newly published developer events",
+    path: "/events",
+    selfPath: "/feed.xml",
+  });
+
+  return new Response(feed, {
+    headers: { "Content-Type": "application/rss+xml; charset=utf-8" },
+  });
+}
@@ -3,6 +3,7 @@ import { Schibsted_Grotesk, Martian_Mono } from "next/font/google";
 import "./globals.css";
 import LightRays from "@/components/LightRays";
 import Navbar from "@/components/Navbar";
+import { SITE_URL } from "@/lib/site";
 
 const schibstedGrotesk = Schibsted_Grotesk({
   variable: "--font-schibsted-grotesk",
@@ -15,8 +16,25 @@ const martianMono = Martian_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "DevEvent",
+  metadataBase: new URL(SITE_URL),
+  title: {
+    default: "DevEvent",
+    template: "%s | DevEvent",
+  },
   description: "The Hub for Every Dev Event You Must Not Miss",
+  openGraph: {
+    siteName: "DevEvent",
+    type: "website",
+  },
+  twitter: {
+    card: "summary_large_image",
+  },
+  alternates: {
+    types: {
+      "application/rss+xml": "/feed.xml",
+      "application/atom+xml": "/atom.xml",
+    },
+  },
 };
 
 export default function RootLayout({
@@ -1,5 +1,6 @@
 import { Suspense } from "react";
 import { connection } from "next/server";
+import Link from "next/link";
 import EventCard from "@/components/EventCard";
 import ExploreBtn from "@/components/ExploreBtn";
 import { getAllEvents } from "@/lib/actions/events";
@@ -9,7 +10,8 @@ async function EventsList() {
   // Opt into dynamic rendering by reading connection info
   await connection();
 
-  const result = await getAllEvents();
+  // Only events that haven't happened yet, soonest first
+  const result = await getAllEvents({ when: "upcoming" });
 
   // Handle error state
   if (!result.ok) {
@@ -20,7 +22,7 @@ async function EventsList() {
     );
   }
 
-  const { events } = result.data;
+  const { events, nextCursor } = result.data;
 
   return (
     <div className="mt-20 space-y-7">
@@ -34,9 +36,22 @@ async function EventsList() {
             </li>
           ))
         ) : (
-          <li className="text-center text-gray-500">No events available</li>
+          <li className="text-center text-gray-500">No upcoming events</li>
         )}
       </ul>
+
+      {nextCursor && (
+        <Link
+          href="/events?when=upcoming"
+          className="block text-center text-primary"
+        >
+          View all upcoming events →
+        </Link>
+      )}
+
+      <Link href="/events/archive" className="block text-center text-primary">
+        Browse past events →
+      </Link>
     </div>
   );
 }
@@ -0,0 +1,28 @@
+import type { MetadataRoute } from "next";
+import { getSitemapIndex } from "@/lib/actions/events";
+import { getSitemapChunks } from "@/lib/sitemap";
+import { absoluteUrl } from "@/lib/site";
+
+export default async function robots(): Promise<MetadataRoute.Robots> {
+  const result = await getSitemapIndex();
+  const chunks = result.ok
+    ? getSitemapChunks(result.data.eventCount, result.data.tags.length)
+    : getSitemapChunks(0, 0);
+
+  return {
+    rules: {
+      userAgent: "*",
+      allow: "/",
+      // Forms, personal cancellation links and the JSON API are not for search
+      disallow: [
+        "/events/new",
+        "/events/*/edit",
+        "/events/*/attendees",
+        "/bookings/",
+        "/admin/",
+        "/api/",
+      ],
+    },
+    sitemap: chunks.map((_, id) => absoluteUrl(`/sitemap/${id}.xml`)),
+  };
+}
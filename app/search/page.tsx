@@ -0,0 +1,96 @@
+import { Suspense } from "react";
+import EventCard from "@/components/EventCard";
+import { searchEvents } from "@/lib/actions/events";
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+// Separate component for data fetching
+async function SearchResults({ query }: { query: string }) {
+  const result = await searchEvents(query);
+
+  // Handle error state
+  if (!result.ok) {
+    return (
+      <p className="text-center mt-5 text-red-500">
+        {result.code === "VALIDATION_ERROR"
+          ? result.message
+          : "Search failed. Please try again later."}
+      </p>
+    );
+  }
+
+  const { results, total } = result.data;
+
+  return (
+    <div className="space-y-7">
+      <p className="text-light-200 text-sm">
+        {total} {total === 1 ? "result" : "results"} for &ldquo;{query}&rdquo;
+        {total > results.length && `, showing the top ${results.length}`}
+      </p>
+
+      <ul className="events">
+        {results.length > 0 ? (
+          results.map(({ event, snippet }) => (
+            <li key={event._id} className="list-none space-y-3">
+              <EventCard {...event} />
+
+              <p className="snippet">
+                {snippet.map((segment, index) =>
+                  segment.highlight ? (
+                    <mark key={index}>{segment.text}</mark>
+                  ) : (
+                    <span key={index}>{segment.text}</span>
+                  )
+                )}
+              </p>
+            </li>
+          ))
+        ) : (
+          <li className="list-none text-center text-gray-500">
+            No events match your search
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+// Reads the URL search params, so it must render inside Suspense
+async function SearchContent({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const { q } = await searchParams;
+  const query = (Array.isArray(q) ? q[0] : q)?.trim() ?? "";
+
+  if (!query) {
+    return (
+      <p className="text-center text-gray-500">
+        Type in the search box to find events
+      </p>
+    );
+  }
+
+  return <SearchResults query={query} />;
+}
+
+const SearchPage = ({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) => {
+  return (
+    <section id="search">
+      <h1 className="text-center">Search Events</h1>
+
+      <Suspense
+        fallback={<div className="text-center text-gray-500">Searching...</div>}
+      >
+        <SearchContent searchParams={searchParams} />
+      </Suspense>
+    </section>
+  );
+};
+
+export default SearchPage;
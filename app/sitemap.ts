@@ -0,0 +1,70 @@
+import type { MetadataRoute } from "next";
+import { getSitemapEvents, getSitemapIndex } from "@/lib/actions/events";
+import { getSitemapChunks } from "@/lib/sitemap";
+import { absoluteUrl } from "@/lib/site";
+
+// One sitemap per chunk of events or tags, served at /sitemap/[id].xml
+export async function generateSitemaps() {
+  const result = await getSitemapIndex();
+  const chunks = result.ok
+    ? getSitemapChunks(result.data.eventCount, result.data.tags.length)
+    : getSitemapChunks(0, 0);
+
+  return chunks.map((_, id) => ({ id }));
+}
+
+export default async function sitemap({
+  id,
+}: {
+  id: Promise<string>;
+}): Promise<MetadataRoute.Sitemap> {
+  const chunkId = Number(await id);
+  const index = await getSitemapIndex();
+  const tags = index.ok ? index.data.tags : [];
+  const chunk = getSitemapChunks(
+    index.ok ? index.data.eventCount : 0,
+    tags.length
+  )[chunkId];
+
+  if (!chunk) {
+    return [];
+  }
+
+  if (chunk.kind === "tags") {
+    return tags.slice(chunk.offset, chunk.offset + chunk.limit).map((tag) => ({
+      url: absoluteUrl(`/events?tag=${encodeURIComponent(tag)}`),
+      changeFrequency: "weekly" as const,
+      priority: 0.5,
+    }));
+  }
+
+  const entries: MetadataRoute.Sitemap = [];
+
+  // Static pages go into the first chunk only
+  if (chunkId === 0) {
+    entries.push(
+      { url: absoluteUrl("/"), changeFrequency: "daily", priority: 1 },
+      { url: absoluteUrl("/events"), changeFrequency: "daily", priority: 0.9 },
+      {
+        url: absoluteUrl("/events/archive"),
+        changeFrequency: "weekly",
+        priority: 0.3,
+      }
+    );
+  }
+
+  const events = await getSitemapEvents(chunk.offset, chunk.limit);
+
+  if (events.ok) {
+    entries.push(
+      ...events.data.map((event) => ({
+        url: absoluteUrl(`/events/${event.slug}`),
+        lastModified: event.updatedAt,
+        changeFrequency: "weekly" as const,
+        priority: 0.8,
+      }))
+    );
+  }
+
+  return entries;
+}
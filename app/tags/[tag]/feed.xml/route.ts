@@ -0,0 +1,47 @@
+import { listEvents } from "@/lib/actions/events";
+import { buildRssFeed, FEED_ITEMS_LIMIT } from "@/lib/feeds";
+
+/**
+ * Tag RSS Feed
+ * Most recently published events with a given tag as RSS 2.0
+ *
+ * @example
+ * /tags/react/feed.xml
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ tag: string }> }
+) {
+  const { tag: rawTag } = await params;
+
+  // Tags may contain spaces or symbols, which arrive percent-encoded
+  let tag = rawTag;
+  try {
+    tag = decodeURIComponent(rawTag);
+  } catch {
+    // Not valid percent-encoding, so use the tag as given
+  }
+
+  const result = await listEvents({
+    tag,
+    sort: "newest",
+    limit: FEED_ITEMS_LIMIT,
+  });
+
+  if (!result.ok) {
+    return new Response(result.message, {
+      status: result.code === "VALIDATION_ERROR" ? 400 : 500,
+    });
+  }
+
+  const feed = buildRssFeed(result.data.events, {
+    title: `DevEvent · ${tag}`,
+    description: `Newly published developer events tagged ${tag}`,
+    path: `/events?tag=${encodeURIComponent(tag)}`,
+    selfPath: `/tags/${encodeURIComponent(tag)}/feed.xml`,
+  });
+
+  return new Response(feed, {
+    headers: { "Content-Type": "application/rss+xml; charset=utf-8" },
+  });
+}
@@ -0,0 +1,173 @@
+"use client";
+
+/**
+ * Attendee Export
+ * Organizer view of an event's attendees. Authenticates with the organizer's
+ * API key against the attendees API and downloads the list as a file
+ */
+
+import { useState, type FormEvent } from "react";
+import type { AttendeeListDTO } from "@/lib/types/dtos";
+
+const FORMATS = [
+  { format: "csv", label: "CSV" },
+  { format: "xlsx", label: "Excel" },
+  { format: "json", label: "JSON" },
+] as const;
+
+/**
+ * AttendeeExport Component
+ */
+export default function AttendeeExport({ slug }: { slug: string }) {
+  const [apiKey, setApiKey] = useState("");
+  const [list, setList] = useState<AttendeeListDTO | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, setIsPending] = useState(false);
+
+  /**
+   * Fetch the attendees in a format, with the key as a bearer token
+   */
+  const fetchAttendees = async (format: string): Promise<Response | null> => {
+    const response = await fetch(
+      `/api/events/${slug}/attendees?format=${format}`,
+      { headers: { Authorization: `Bearer ${apiKey.trim()}` } }
+    );
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      setError(body?.error?.message ?? "Failed to load attendees");
+      return null;
+    }
+
+    setError(null);
+    return response;
+  };
+
+  const handleLoad = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsPending(true);
+
+    try {
+      const response = await fetchAttendees("json");
+      setList(response ? await response.json() : null);
+    } catch {
+      setError("Failed to load attendees");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleDownload = async (format: string) => {
+    setIsPending(true);
+
+    try {
+      const response = await fetchAttendees(format);
+
+      if (!response) {
+        return;
+      }
+
+      // Save the response through a temporary link
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${slug}-attendees.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError("Failed to download attendees");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="card-shadow rounded-xl bg-dark-100 p-6 sm:p-8">
+        <form onSubmit={handleLoad} className="flex flex-col gap-4">
+          <label
+            htmlFor="apiKey"
+            className="text-light-200 text-sm font-medium"
+          >
+            API Key * (attendees:read scope)
+          </label>
+          <input
+            type="password"
+            id="apiKey"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            placeholder="devevent_..."
+            autoComplete="off"
+            required
+            disabled={isPending}
+            className="rounded-[6px] bg-dark-200 px-5 py-2.5 text-light-100 placeholder:text-light-200/50 focus:outline-none focus:ring-2 focus:ring-primary/50 disabled:opacity-50"
+          />
+
+          {error && <p className="text-destructive text-sm">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={isPending || !apiKey.trim()}
+            className="flex w-full items-center justify-center gap-2 rounded-[6px] bg-primary py-2.5 text-lg font-semibold text-black transition hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-70"
+          >
+            {isPending ? "Loading..." : "Show Attendees"}
+          </button>
+        </form>
+      </div>
+
+      {list && (
+        <div className="card-shadow flex flex-col gap-4 rounded-xl bg-dark-100 p-6 sm:p-8">
+          <h2 className="text-xl font-semibold">
+            {list.confirmed} confirmed, {list.waitlisted} waitlisted
+          </h2>
+
+          <div className="flex flex-wrap gap-2">
+            {FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => handleDownload(format)}
+                disabled={isPending}
+                className="rounded-[6px] border border-dark-200 bg-dark-200/50 px-4 py-2 text-sm text-light-100 transition hover:bg-dark-200 disabled:opacity-50"
+              >
+                Download {label}
+              </button>
+            ))}
+          </div>
+
+          {list.attendees.length === 0 ? (
+            <p className="text-light-200 text-sm">No bookings yet.</p>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="text-light-200">
+                <tr>
+                  <th className="py-2">Email</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2">Booked at</th>
+                </tr>
+              </thead>
+              <tbody>
+                {list.attendees.map((attendee) => (
+                  <tr
+                    key={attendee.bookingId}
+                    className="border-t border-dark-200"
+                  >
+                    <td className="py-2">{attendee.email}</td>
+                    <td className="py-2">
+                      {attendee.waitlistPosition
+                        ? `Waitlist #${attendee.waitlistPosition}`
+                        : "Confirmed"}
+                    </td>
+                    <td className="py-2">
+                      {new Date(attendee.createdAt).toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
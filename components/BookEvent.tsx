@@ -1,38 +1,116 @@
 "use client";
 
-import React, { useState } from "react";
+import { useActionState, useState } from "react";
+import Link from "next/link";
+import { createBooking } from "@/lib/actions/bookings";
+import type { ActionResult } from "@/lib/types/actions";
+import type { BookingDTO } from "@/lib/types/dtos";
 
-const BookEvent = () => {
-  const [email, setEmail] = useState("");
-  const [submitted, setSubmitted] = useState(false);
+/**
+ * Initial state for useActionState
+ */
+const initialState: ActionResult<BookingDTO> | null = null;
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+const BookEvent = ({
+  eventId,
+  slug,
+  isFull = false,
+  isPast = false,
+}: {
+  eventId: string;
+  slug: string;
+  isFull?: boolean;
+  isPast?: boolean;
+}) => {
+  const [email, setEmail] = useState("");
+  const [state, formAction, isPending] = useActionState(
+    createBooking,
+    initialState
+  );
 
-    setTimeout(() => {
-      setSubmitted(true);
-    }, 1000);
-  };
+  // Field-level error from Zod issues
+  const emailError =
+    !state?.ok && state?.issues
+      ? state.issues.find((issue) => issue.path[0] === "email")?.message
+      : undefined;
 
   return (
     <div id="book-event">
-      {submitted ? (
-        <p className="text-sm">Thankyou for signing up!</p>
+      {state?.ok ? (
+        <>
+          {state.data.status === "waitlisted" ? (
+            <p className="text-sm">
+              This event is full, so you&apos;re on the waitlist. We&apos;ll
+              give you a seat as soon as one opens up.
+            </p>
+          ) : (
+            <>
+              <p className="text-sm">Thank you for signing up!</p>
+              <a
+                href={`/events/${slug}/calendar.ics`}
+                className="text-primary text-sm"
+                download
+              >
+                Add to calendar
+              </a>
+            </>
+          )}
+
+          {state.data.cancelToken && (
+            <p className="text-sm">
+              Plans changed?{" "}
+              <Link
+                href={`/bookings/cancel/${state.data.cancelToken}`}
+                className="text-primary"
+              >
+                Cancel your booking
+              </Link>{" "}
+              (we&apos;ve emailed you this link too; it works until the event
+              starts).
+            </p>
+          )}
+        </>
+      ) : state?.code === "CONFLICT" ? (
+        <p className="text-sm">
+          You&apos;re already registered for this event with {email}. See you
+          there!
+        </p>
       ) : (
-        <form onSubmit={handleSubmit}>
+        <form action={formAction}>
+          <input type="hidden" name="eventId" value={eventId} />
           <div>
             <label htmlFor="email">Email Address</label>
             <input
               type="email"
+              name="email"
               value={email}
               onChange={(e) => setEmail(e.target.value)}
               id="email"
               placeholder="Enter your email address"
+              required
+              disabled={isPending || isPast}
             />
+            {emailError && (
+              <p className="text-destructive text-xs">{emailError}</p>
+            )}
           </div>
 
-          <button type="submit" className="button-submit">
-            Submit
+          {!state?.ok && state?.message && !emailError && (
+            <p className="text-destructive text-sm">{state.message}</p>
+          )}
+
+          <button
+            type="submit"
+            className="button-submit"
+            disabled={isPending || isPast}
+          >
+            {isPast
+              ? "Bookings Closed"
+              : isPending
+              ? "Booking..."
+              : isFull
+              ? "Join Waitlist"
+              : "Submit"}
           </button>
         </form>
       )}
@@ -0,0 +1,22 @@
+import Image from "next/image";
+import { getBookingCountForEvent } from "@/lib/actions/bookings";
+
+const BookingCount = async ({ eventId }: { eventId: string }) => {
+  const result = await getBookingCountForEvent(eventId);
+
+  // Social proof is optional, so failures simply render nothing
+  if (!result.ok) {
+    return null;
+  }
+
+  const { count } = result.data;
+
+  return (
+    <div>
+      <Image src="/icons/audience.svg" alt="bookings" width={14} height={14} />
+      <p>{count > 0 ? `${count} booked` : "Be the first to book"}</p>
+    </div>
+  );
+};
+
+export default BookingCount;
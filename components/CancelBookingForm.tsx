@@ -0,0 +1,54 @@
+"use client";
+
+import { useActionState } from "react";
+import Link from "next/link";
+import { cancelBooking } from "@/lib/actions/bookings";
+import type { ActionResult } from "@/lib/types/actions";
+import type { BookingDTO } from "@/lib/types/dtos";
+
+/**
+ * Initial state for useActionState
+ */
+const initialState: ActionResult<BookingDTO> | null = null;
+
+const CancelBookingForm = ({
+  token,
+  eventSlug,
+}: {
+  token: string;
+  eventSlug: string;
+}) => {
+  const [state, formAction, isPending] = useActionState(
+    cancelBooking,
+    initialState
+  );
+
+  if (state?.ok) {
+    return (
+      <div className="flex flex-col gap-4">
+        <p className="text-sm">
+          Your booking has been cancelled. Thanks for letting us know!
+        </p>
+        <Link href={`/events/${eventSlug}`} className="text-primary text-sm">
+          Back to the event
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form action={formAction}>
+      <input type="hidden" name="token" value={token} />
+
+      {state && !state.ok && (
+        <p className="text-destructive text-sm">{state.message}</p>
+      )}
+
+      <button type="submit" disabled={isPending}>
+        {isPending ? "Cancelling..." : "Cancel My Booking"}
+      </button>
+    </form>
+  );
+};
+
+export default CancelBookingForm;
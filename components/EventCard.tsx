@@ -1,7 +1,10 @@
 import Image from "next/image";
 import Link from "next/link";
+import { Suspense } from "react";
+import BookingCount from "@/components/BookingCount";
 
 interface Props {
+  _id: string;
   title: string;
   image: string;
   slug: string;
@@ -10,7 +13,15 @@ interface Props {
   time: string;
 }
 
-const EventCard = ({ title, image, slug, location, date, time }: Props) => {
+const EventCard = ({
+  _id,
+  title,
+  image,
+  slug,
+  location,
+  date,
+  time,
+}: Props) => {
   return (
     <Link href={`/events/${slug}`} id="event-card">
       <Image
@@ -38,6 +49,10 @@ const EventCard = ({ title, image, slug, location, date, time }: Props) => {
           <Image src="/icons/clock.svg" alt="time" width={14} height={14} />
           <p>{time}</p>
         </div>
+
+        <Suspense fallback={null}>
+          <BookingCount eventId={_id} />
+        </Suspense>
       </div>
     </Link>
   );
@@ -0,0 +1,90 @@
+import Form from "next/form";
+import Link from "next/link";
+import type { ListEventsQuery } from "@/lib/validation/events";
+
+/**
+ * Event Filters
+ * GET form that keeps the listing filters in the URL search params
+ */
+const EventFilters = ({ values }: { values: ListEventsQuery }) => {
+  return (
+    // Remount on navigation so the fields reflect the current URL
+    <Form action="/events" id="event-filters" key={JSON.stringify(values)}>
+      <div>
+        <label htmlFor="filter-when">When</label>
+        <select id="filter-when" name="when" defaultValue={values.when ?? ""}>
+          <option value="">Any time</option>
+          <option value="upcoming">Upcoming</option>
+          <option value="past">Past</option>
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="filter-mode">Mode</label>
+        <select id="filter-mode" name="mode" defaultValue={values.mode ?? ""}>
+          <option value="">Any</option>
+          <option value="online">Online</option>
+          <option value="offline">Offline</option>
+          <option value="hybrid">Hybrid</option>
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="filter-tag">Tag</label>
+        <input
+          type="text"
+          id="filter-tag"
+          name="tag"
+          placeholder="e.g., react"
+          defaultValue={values.tag}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="filter-location">Location</label>
+        <input
+          type="text"
+          id="filter-location"
+          name="location"
+          placeholder="City or Virtual"
+          defaultValue={values.location}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="filter-from">From</label>
+        <input
+          type="date"
+          id="filter-from"
+          name="from"
+          defaultValue={values.from}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="filter-to">To</label>
+        <input type="date" id="filter-to" name="to" defaultValue={values.to} />
+      </div>
+
+      <div>
+        <label htmlFor="filter-sort">Sort by</label>
+        <select
+          id="filter-sort"
+          name="sort"
+          defaultValue={values.sort ?? "date-asc"}
+        >
+          <option value="date-asc">Soonest first</option>
+          <option value="date-desc">Latest first</option>
+          <option value="newest">Recently added</option>
+        </select>
+      </div>
+
+      <div className="actions">
+        <button type="submit">Apply</button>
+        <Link href="/events">Clear</Link>
+      </div>
+    </Form>
+  );
+};
+
+export default EventFilters;
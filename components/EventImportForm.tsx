@@ -0,0 +1,177 @@
+"use client";
+
+/**
+ * Event Import Form
+ * Uploads a CSV or JSON file, with any local images it names, and shows the
+ * per-row report. Dry run is on by default so a file can be checked first
+ */
+
+import { startTransition, useActionState, type FormEvent } from "react";
+import Link from "next/link";
+import { importEvents } from "@/lib/actions/imports";
+import type { ActionResult } from "@/lib/types/actions";
+import type { EventImportReportDTO } from "@/lib/types/dtos";
+
+/**
+ * Initial state for useActionState
+ */
+const initialState: ActionResult<EventImportReportDTO> | null = null;
+
+const inputClassName =
+  "rounded-[6px] bg-dark-200 px-5 py-2.5 text-light-100 placeholder:text-light-200/50 focus:outline-none focus:ring-2 focus:ring-primary/50 disabled:opacity-50";
+
+/**
+ * EventImportForm Component
+ */
+export default function EventImportForm() {
+  const [state, formAction, isPending] = useActionState(
+    importEvents,
+    initialState
+  );
+
+  /**
+   * Submit without the automatic form reset, so the chosen files stay
+   * selected for the real import after a dry run
+   */
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    startTransition(() => formAction(formData));
+  };
+
+  const report = state?.ok ? state.data : null;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="card-shadow rounded-xl bg-dark-100 p-6 sm:p-8">
+        <form onSubmit={handleSubmit} className="flex flex-col gap-6">
+          {/* API Key */}
+          <div className="flex flex-col gap-2">
+            <label
+              htmlFor="apiKey"
+              className="text-light-200 text-sm font-medium"
+            >
+              API Key * (events:write scope)
+            </label>
+            <input
+              type="password"
+              id="apiKey"
+              name="apiKey"
+              placeholder="devevent_..."
+              autoComplete="off"
+              required
+              disabled={isPending}
+              className={inputClassName}
+            />
+          </div>
+
+          {/* Data File */}
+          <div className="flex flex-col gap-2">
+            <label
+              htmlFor="file"
+              className="text-light-200 text-sm font-medium"
+            >
+              Events File * (CSV or JSON)
+            </label>
+            <input
+              type="file"
+              id="file"
+              name="file"
+              accept=".csv,.json,text/csv,application/json"
+              required
+              disabled={isPending}
+              className={inputClassName}
+            />
+            <p className="text-light-200 text-xs">
+              One event per row with the event form fields plus an image URL or
+              file name. In CSV, separate agenda items and tags with semicolons.
+            </p>
+          </div>
+
+          {/* Images */}
+          <div className="flex flex-col gap-2">
+            <label
+              htmlFor="images"
+              className="text-light-200 text-sm font-medium"
+            >
+              Images (for rows that name a local file)
+            </label>
+            <input
+              type="file"
+              id="images"
+              name="images"
+              accept="image/jpeg,image/jpg,image/png,image/webp"
+              multiple
+              disabled={isPending}
+              className={inputClassName}
+            />
+          </div>
+
+          {/* Dry Run */}
+          <label className="text-light-100 flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              name="dryRun"
+              defaultChecked
+              disabled={isPending}
+            />
+            Dry run (validate only, nothing is created)
+          </label>
+
+          {state && !state.ok && (
+            <p className="text-destructive text-sm">{state.message}</p>
+          )}
+
+          <button
+            type="submit"
+            disabled={isPending}
+            className="flex w-full items-center justify-center gap-2 rounded-[6px] bg-primary py-2.5 text-lg font-semibold text-black transition hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-70"
+          >
+            {isPending ? "Importing..." : "Import Events"}
+          </button>
+        </form>
+      </div>
+
+      {report && (
+        <div className="card-shadow flex flex-col gap-4 rounded-xl bg-dark-100 p-6 sm:p-8">
+          <h2 className="text-xl font-semibold">
+            {report.dryRun
+              ? `Dry run: ${report.succeeded} valid, ${report.failed} invalid`
+              : `Imported ${report.succeeded} events, ${report.failed} failed`}
+          </h2>
+
+          <ul className="flex flex-col gap-3">
+            {report.rows.map((row) => (
+              <li key={row.row} className="flex flex-col gap-1 text-sm">
+                <p>
+                  <span className="text-light-200">Row {row.row}:</span>{" "}
+                  {row.slug ? (
+                    <Link href={`/events/${row.slug}`} className="text-primary">
+                      {row.title}
+                    </Link>
+                  ) : (
+                    row.title ?? "(untitled)"
+                  )}{" "}
+                  <span
+                    className={
+                      row.errors.length > 0
+                        ? "text-destructive"
+                        : "text-primary"
+                    }
+                  >
+                    {row.status}
+                  </span>
+                </p>
+                {row.errors.map((error) => (
+                  <p key={error} className="text-destructive text-xs">
+                    {error}
+                  </p>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import Image from "next/image";
 import Link from "next/link";
+import Form from "next/form";
 
 const Navbar = () => {
   return (
@@ -10,9 +11,21 @@ const Navbar = () => {
           <p>DevEvent</p>
         </Link>
 
+        <Form action="/search" className="search">
+          <input
+            type="search"
+            name="q"
+            placeholder="Search events"
+            aria-label="Search events"
+            minLength={2}
+            maxLength={100}
+            required
+          />
+        </Form>
+
         <ul>
           <Link href="/">Home</Link>
-          <Link href="/">Events</Link>
+          <Link href="/events">Events</Link>
           <Link href="/events/new">Create Event</Link>
         </ul>
       </nav>
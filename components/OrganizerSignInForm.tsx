@@ -0,0 +1,55 @@
+"use client";
+
+/**
+ * Organizer Sign-In Form
+ * Signs an organizer in with an API key; the page re-renders signed in
+ */
+
+import { useActionState } from "react";
+import { signIn } from "@/lib/actions/organizers";
+import type { ActionResult } from "@/lib/types/actions";
+import type { OrganizerDTO } from "@/lib/types/dtos";
+
+/**
+ * Initial state for useActionState
+ */
+const initialState: ActionResult<OrganizerDTO> | null = null;
+
+/**
+ * OrganizerSignInForm Component
+ */
+export default function OrganizerSignInForm() {
+  const [state, formAction, isPending] = useActionState(signIn, initialState);
+
+  return (
+    <div className="card-shadow rounded-xl bg-dark-100 p-6 sm:p-8">
+      <form action={formAction} className="flex flex-col gap-4">
+        <label htmlFor="apiKey" className="text-light-200 text-sm font-medium">
+          API Key * (events:write scope)
+        </label>
+        <input
+          type="password"
+          id="apiKey"
+          name="apiKey"
+          placeholder="devevent_..."
+          autoComplete="off"
+          required
+          disabled={isPending}
+          className="rounded-[6px] bg-dark-200 px-5 py-2.5 text-light-100 placeholder:text-light-200/50 focus:outline-none focus:ring-2 focus:ring-primary/50 disabled:opacity-50"
+        />
+
+        {state && !state.ok && (
+          <p className="text-destructive text-sm">{state.message}</p>
+        )}
+
+        <button
+          type="submit"
+          disabled={isPending}
+          className="flex w-full items-center justify-center gap-2 rounded-[6px] bg-primary py-2.5 text-lg font-semibold text-black transition hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {isPending ? "Signing In..." : "Sign In"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import mongoose, { Document, Model, Schema } from "mongoose";
+
+/**
+ * API key scopes
+ * events:write allows creating events, webhooks:manage registering webhooks
+ * and attendees:read exporting the attendees of the owner's events
+ */
+export const API_KEY_SCOPES = [
+  "events:write",
+  "webhooks:manage",
+  "attendees:read",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * TypeScript interface for ApiKey document
+ * Extends Document to include Mongoose document properties
+ */
+export interface IApiKey extends Document {
+  name: string;
+  owner: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * ApiKey Schema Definition
+ * Organizer credentials for the public API, stored as hashes only
+ */
+const ApiKeySchema = new Schema<IApiKey>(
+  {
+    name: {
+      type: String,
+      required: [true, "Key name is required"],
+      trim: true,
+    },
+    owner: {
+      type: String,
+      required: [true, "Key owner is required"],
+      lowercase: true,
+      trim: true,
+    },
+    prefix: {
+      type: String,
+      required: [true, "Key prefix is required"],
+    },
+    keyHash: {
+      type: String,
+      required: [true, "Key hash is required"],
+      unique: true,
+    },
+    scopes: {
+      type: [String],
+      enum: {
+        values: API_KEY_SCOPES,
+        message: "Unknown API key scope",
+      },
+      default: [],
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedAt: {
+      type: Date,
+      default: null, // Set when revoked; revoked keys are kept for auditing
+    },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+// Note: Unique index on keyHash is already defined in the schema field definition above
+
+// Index for listing an owner's keys
+ApiKeySchema.index({ owner: 1, createdAt: -1 });
+
+/**
+ * ApiKey Model
+ * Use mongoose.models to prevent model recompilation during hot reloading in development
+ */
+const ApiKey: Model<IApiKey> =
+  mongoose.models.ApiKey || mongoose.model<IApiKey>("ApiKey", ApiKeySchema);
+
+export default ApiKey;
@@ -1,6 +1,12 @@
 import mongoose, { Document, Model, Schema } from "mongoose";
 import Event from "./event.model";
 
+/**
+ * Booking status
+ * Confirmed bookings hold a seat, waitlisted ones wait for a seat to free up
+ */
+export type BookingStatus = "confirmed" | "waitlisted";
+
 /**
  * TypeScript interface for Booking document
  * Extends Document to include Mongoose document properties
@@ -8,6 +14,7 @@ import Event from "./event.model";
 export interface IBooking extends Document {
   eventId: mongoose.Types.ObjectId;
   email: string;
+  status: BookingStatus;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -38,6 +45,14 @@ const BookingSchema = new Schema<IBooking>(
         message: "Please provide a valid email address",
       },
     },
+    status: {
+      type: String,
+      enum: {
+        values: ["confirmed", "waitlisted"],
+        message: "Status must be either confirmed or waitlisted",
+      },
+      default: "confirmed",
+    },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt
@@ -75,9 +90,13 @@ BookingSchema.pre("save", async function (next) {
   next();
 });
 
-// Composite index for querying bookings by event and email
+// Unique composite index enforcing one booking per email per event
 // Note: This composite index also serves single-field queries on eventId (leftmost prefix)
-BookingSchema.index({ eventId: 1, email: 1 });
+// Note: Databases with the previous non-unique index need it dropped (e.g. Booking.syncIndexes())
+BookingSchema.index({ eventId: 1, email: 1 }, { unique: true });
+
+// Index for reading an event's waitlist in arrival order
+BookingSchema.index({ eventId: 1, status: 1, createdAt: 1 });
 
 /**
  * Booking Model
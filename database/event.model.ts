@@ -19,6 +19,9 @@ export interface IEvent extends Document {
   agenda: string[];
   organizer: string;
   tags: string[];
+  capacity?: number | null;
+  bookedSeats: number;
+  owner: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -108,12 +111,49 @@ const EventSchema = new Schema<IEvent>(
         message: "Tags must contain at least one item",
       },
     },
+    capacity: {
+      type: Number,
+      default: null, // null means unlimited seats
+      min: [1, "Capacity must be at least 1"],
+      validate: {
+        validator: (v: number | null) => v === null || Number.isInteger(v),
+        message: "Capacity must be a whole number",
+      },
+    },
+    bookedSeats: {
+      type: Number,
+      default: 0, // Confirmed bookings, maintained atomically by the booking flow
+      min: [0, "Booked seats cannot be negative"],
+    },
+    owner: {
+      type: String,
+      default: null, // Email of the API key owner; null for events made on the site
+      lowercase: true,
+      trim: true,
+    },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt
   }
 );
 
+/**
+ * Get Event Slug
+ * The slug the pre-save hook derives from a title
+ *
+ * @param title - Event title
+ * @returns URL slug
+ */
+export function getEventSlug(title: string): string {
+  return title
+    .trim()
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, "") // Remove special characters
+    .replace(/\s+/g, "-") // Replace spaces with hyphens
+    .replace(/--+/g, "-") // Replace multiple hyphens with single hyphen
+    .trim();
+}
+
 /**
  * Pre-save hook for slug generation, date normalization, and validation
  * Runs before every save operation
@@ -121,12 +161,7 @@ const EventSchema = new Schema<IEvent>(
 EventSchema.pre("save", function (next) {
   // Generate slug only if title is new or modified
   if (this.isModified("title")) {
-    this.slug = this.title
-      .toLowerCase()
-      .replace(/[^\w\s-]/g, "") // Remove special characters
-      .replace(/\s+/g, "-") // Replace spaces with hyphens
-      .replace(/--+/g, "-") // Replace multiple hyphens with single hyphen
-      .trim();
+    this.slug = getEventSlug(this.title);
   }
 
   // Normalize date to ISO format if modified
@@ -165,6 +200,31 @@ EventSchema.pre("save", function (next) {
 // Note: Unique index on slug is already defined in the schema field definition above
 // No need to add it again here to avoid duplicate index warning
 
+// Index for looking up an organizer's events
+EventSchema.index({ owner: 1 });
+
+// Weighted text index for full-text search
+// Matches in the title count the most, the long-form overview the least
+EventSchema.index(
+  {
+    title: "text",
+    tags: "text",
+    organizer: "text",
+    description: "text",
+    overview: "text",
+  },
+  {
+    name: "event_text_search",
+    weights: {
+      title: 10,
+      tags: 6,
+      organizer: 4,
+      description: 3,
+      overview: 1,
+    },
+  }
+);
+
 /**
  * Event Model
  * Use mongoose.models to prevent model recompilation during hot reloading in development
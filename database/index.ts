@@ -7,9 +7,20 @@
  * import { Event, Booking } from '@/database';
  */
 
-export { default as Event } from "./event.model";
+export { default as Event, getEventSlug } from "./event.model";
 export { default as Booking } from "./booking.model";
+export { default as Notification } from "./notification.model";
+export { default as ApiKey, API_KEY_SCOPES } from "./api-key.model";
+export { default as Webhook, WEBHOOK_EVENT_TYPES } from "./webhook.model";
+export { default as WebhookDelivery } from "./webhook-delivery.model";
 
 // Export types for TypeScript
 export type { IEvent } from "./event.model";
-export type { IBooking } from "./booking.model";
+export type { IBooking, BookingStatus } from "./booking.model";
+export type { INotification, NotificationType } from "./notification.model";
+export type { IApiKey, ApiKeyScope } from "./api-key.model";
+export type { IWebhook, WebhookEventType } from "./webhook.model";
+export type {
+  IWebhookDelivery,
+  WebhookDeliveryStatus,
+} from "./webhook-delivery.model";
@@ -115,4 +115,34 @@ async function connectDB(): Promise<Connection> {
   return cached.conn;
 }
 
+/**
+ * Whether the connected deployment supports transactions
+ * Replica sets and sharded clusters do; standalone servers don't
+ * Asked once per connection and remembered
+ */
+let transactionSupport: Promise<boolean> | null = null;
+
+/**
+ * Checks whether the connected deployment supports multi-document
+ * transactions
+ *
+ * @param connection - Active connection from connectDB()
+ * @returns {Promise<boolean>} true for replica sets and sharded clusters
+ */
+export function supportsTransactions(connection: Connection): Promise<boolean> {
+  if (!transactionSupport) {
+    transactionSupport = connection
+      .db!.admin()
+      .command({ hello: 1 })
+      .then((hello) => Boolean(hello.setName) || hello.msg === "isdbgrid")
+      .catch((error) => {
+        // Ask again next time rather than remembering a failed check
+        transactionSupport = null;
+        throw error;
+      });
+  }
+
+  return transactionSupport;
+}
+
 export default connectDB;
@@ -0,0 +1,110 @@
+import mongoose, { Document, Model, Schema } from "mongoose";
+
+/**
+ * Notification types
+ * Each type corresponds to a message template sent to attendees
+ */
+export type NotificationType =
+  | "booking_confirmed"
+  | "booking_promoted"
+  | "event_cancelled";
+
+/**
+ * TypeScript interface for Notification document
+ * Extends Document to include Mongoose document properties
+ */
+export interface INotification extends Document {
+  email: string;
+  bookingId: mongoose.Types.ObjectId | null;
+  type: NotificationType;
+  subject: string;
+  message: string;
+  sentAt: Date | null;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Notification Schema Definition
+ * Outbox of attendee emails, sent by the notification worker
+ * (scripts/notification-worker.ts) and retried at nextAttemptAt until they
+ * are sent or run out of attempts
+ * Emails about a booking carry its ID, so a retried write queues each email
+ * only once
+ */
+const NotificationSchema = new Schema<INotification>(
+  {
+    email: {
+      type: String,
+      required: [true, "Email is required"],
+      lowercase: true,
+      trim: true,
+    },
+    bookingId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+    },
+    type: {
+      type: String,
+      required: [true, "Notification type is required"],
+      enum: {
+        values: ["booking_confirmed", "booking_promoted", "event_cancelled"],
+        message: "Unknown notification type",
+      },
+    },
+    subject: {
+      type: String,
+      required: [true, "Notification subject is required"],
+      trim: true,
+    },
+    message: {
+      type: String,
+      required: [true, "Notification message is required"],
+      trim: true,
+    },
+    sentAt: {
+      type: Date,
+      default: null, // null until the mailer has delivered it
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: () => new Date(), // null once sent or out of attempts
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+// One email of each type per booking
+NotificationSchema.index(
+  { bookingId: 1, type: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { bookingId: { $type: "objectId" } },
+  }
+);
+
+// Index for the mailer to read due notifications in order
+NotificationSchema.index({ nextAttemptAt: 1 });
+
+/**
+ * Notification Model
+ * Use mongoose.models to prevent model recompilation during hot reloading in development
+ */
+const Notification: Model<INotification> =
+  mongoose.models.Notification ||
+  mongoose.model<INotification>("Notification", NotificationSchema);
+
+export default Notification;
@@ -0,0 +1,96 @@
+import mongoose, { Document, Model, Schema } from "mongoose";
+import type { WebhookEventType } from "./webhook.model";
+
+/**
+ * Delivery status
+ * pending deliveries are (re)tried at nextAttemptAt until they succeed or
+ * run out of attempts
+ */
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+/**
+ * TypeScript interface for WebhookDelivery document
+ * Extends Document to include Mongoose document properties
+ */
+export interface IWebhookDelivery extends Document {
+  webhookId: mongoose.Types.ObjectId;
+  type: WebhookEventType;
+  body: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WebhookDelivery Schema Definition
+ * Delivery log; the body is stored exactly as signed so retries are identical
+ */
+const WebhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    webhookId: {
+      type: Schema.Types.ObjectId,
+      ref: "Webhook",
+      required: [true, "Webhook ID is required"],
+    },
+    type: {
+      type: String,
+      required: [true, "Event type is required"],
+    },
+    body: {
+      type: String,
+      required: [true, "Delivery body is required"],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ["pending", "succeeded", "failed"],
+        message: "Status must be pending, succeeded or failed",
+      },
+      default: "pending",
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: () => new Date(), // null once the delivery is settled
+    },
+    lastStatusCode: {
+      type: Number,
+      default: null,
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+    deliveredAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+// Index for the retry worker to find due deliveries
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+// Index for a webhook's delivery log, newest first
+WebhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+
+/**
+ * WebhookDelivery Model
+ * Use mongoose.models to prevent model recompilation during hot reloading in development
+ */
+const WebhookDelivery: Model<IWebhookDelivery> =
+  mongoose.models.WebhookDelivery ||
+  mongoose.model<IWebhookDelivery>("WebhookDelivery", WebhookDeliverySchema);
+
+export default WebhookDelivery;
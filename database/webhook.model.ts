@@ -0,0 +1,80 @@
+import mongoose, { Document, Model, Schema } from "mongoose";
+
+/**
+ * Webhook event types
+ * event.* go to every subscriber; booking.* carry attendee emails, so they
+ * only go to webhooks owned by the event's owner
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  "event.created",
+  "event.updated",
+  "event.deleted",
+  "booking.created",
+  "booking.cancelled",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * TypeScript interface for Webhook document
+ * Extends Document to include Mongoose document properties
+ */
+export interface IWebhook extends Document {
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  owner: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Webhook Schema Definition
+ * Integrator endpoints notified about event and booking changes
+ */
+const WebhookSchema = new Schema<IWebhook>(
+  {
+    url: {
+      type: String,
+      required: [true, "Webhook URL is required"],
+      trim: true,
+    },
+    secret: {
+      type: String,
+      required: [true, "Webhook secret is required"],
+      // Kept in plain text because every delivery is signed with it
+    },
+    events: {
+      type: [String],
+      enum: {
+        values: WEBHOOK_EVENT_TYPES,
+        message: "Unknown webhook event type",
+      },
+      validate: {
+        validator: (v: string[]) => Array.isArray(v) && v.length > 0,
+        message: "Webhook must subscribe to at least one event",
+      },
+    },
+    owner: {
+      type: String,
+      required: [true, "Webhook owner is required"],
+      lowercase: true,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+// Index for finding the subscribers of an event type
+WebhookSchema.index({ events: 1, owner: 1 });
+
+/**
+ * Webhook Model
+ * Use mongoose.models to prevent model recompilation during hot reloading in development
+ */
+const Webhook: Model<IWebhook> =
+  mongoose.models.Webhook || mongoose.model<IWebhook>("Webhook", WebhookSchema);
+
+export default Webhook;
@@ -0,0 +1,386 @@
+"use server";
+
+/**
+ * Booking Server Actions
+ * Type-safe server actions for booking operations
+ */
+
+import "server-only";
+import { cacheTag, revalidatePath, updateTag } from "next/cache";
+import { cache } from "react";
+import { ZodError } from "zod";
+import connectDB from "@/database/mongodb";
+import { Booking, Event } from "@/database";
+import type { ActionResult } from "@/lib/types/actions";
+import type {
+  BookingCancellationDTO,
+  BookingCountDTO,
+  BookingDTO,
+} from "@/lib/types/dtos";
+import { cacheTags } from "@/lib/cache-tags";
+import { toBookingDTO, toWebhookEvent } from "@/lib/booking-dtos";
+import { queueBookingEmail } from "@/lib/booking-emails";
+import {
+  createCancellationToken,
+  verifyCancellationToken,
+} from "@/lib/booking-tokens";
+import { getEventStart, isPastEvent } from "@/lib/event-dates";
+import { handOverSeat, releaseSeat, reserveSeat } from "@/lib/seats";
+import { dispatchWebhookEvent } from "@/lib/webhook-dispatch";
+import { createBookingSchema } from "@/lib/validation/bookings";
+import { objectIdSchema } from "@/lib/validation/events";
+
+/**
+ * Count Bookings
+ * Internal cached reader, tagged per event so writes can invalidate it
+ * Throws on failure so that errors are never cached
+ *
+ * @param eventId - Validated event ID
+ * @returns Number of bookings for the event
+ */
+async function countBookings(eventId: string): Promise<number> {
+  "use cache";
+  cacheTag(cacheTags.bookingCount(eventId));
+
+  await connectDB();
+
+  // Bookings made before the waitlist existed have no status and hold a seat
+  return Booking.countDocuments({
+    eventId,
+    status: { $ne: "waitlisted" },
+  }).exec();
+}
+
+/**
+ * Get Booking Count For Event
+ * Retrieves the cached number of bookings for an event
+ *
+ * @param eventId - Event ID
+ * @returns ActionResult with booking count or error
+ */
+export async function getBookingCountForEvent(
+  eventId: string
+): Promise<ActionResult<BookingCountDTO>> {
+  try {
+    const validatedId = objectIdSchema.parse(eventId);
+
+    const count = await countBookings(validatedId);
+
+    return {
+      ok: true,
+      data: { eventId: validatedId, count },
+    };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return {
+        ok: false,
+        code: "VALIDATION_ERROR",
+        message: "Invalid event ID",
+        issues: error.issues,
+      };
+    }
+
+    console.error("[getBookingCountForEvent] Error:", error);
+
+    return {
+      ok: false,
+      code: "UNKNOWN",
+      message: "Failed to fetch booking count",
+    };
+  }
+}
+
+/**
+ * Create Booking
+ * Books a spot for an event using the attendee's email
+ * Full events put the attendee on the waitlist instead
+ *
+ * @param prevState - Previous state (for useActionState compatibility)
+ * @param formData - FormData containing eventId and email
+ * @returns ActionResult with created booking or error
+ */
+export async function createBooking(
+  prevState: ActionResult<BookingDTO> | null,
+  formData: FormData
+): Promise<ActionResult<BookingDTO>> {
+  return createBookingDirect(formData);
+}
+
+/**
+ * Create Booking Direct
+ * Direct version of createBooking without state parameter
+ * Use this with useTransition or from Server Components
+ *
+ * @param formData - FormData containing eventId and email
+ * @returns ActionResult with created booking or error
+ */
+export async function createBookingDirect(
+  formData: FormData
+): Promise<ActionResult<BookingDTO>> {
+  try {
+    const validated = createBookingSchema.parse({
+      eventId: formData.get("eventId"),
+      email: formData.get("email"),
+    });
+
+    await connectDB();
+
+    const event = await Event.findById(validated.eventId)
+      .select("title slug date time owner")
+      .lean()
+      .exec();
+
+    if (!event) {
+      return {
+        ok: false,
+        code: "NOT_FOUND",
+        message: "This event no longer exists",
+      };
+    }
+
+    if (isPastEvent(event.date)) {
+      return {
+        ok: false,
+        code: "VALIDATION_ERROR",
+        message: "This event has already taken place",
+      };
+    }
+
+    const hasSeat = await reserveSeat(validated.eventId);
+
+    let createdBooking;
+    try {
+      createdBooking = await Booking.create({
+        ...validated,
+        status: hasSeat ? "confirmed" : "waitlisted",
+      });
+    } catch (error) {
+      // Give the seat back if the booking itself could not be stored
+      if (hasSeat) {
+        await releaseSeat(validated.eventId);
+      }
+      throw error;
+    }
+
+    // Invalidate the cached count and the event page
+    updateTag(cacheTags.bookingCount(validated.eventId));
+    revalidatePath(`/events/${event.slug}`);
+
+    // Cancellation stays possible until the event starts
+    const cancelToken = createCancellationToken(
+      String(createdBooking._id),
+      getEventStart(event.date, event.time)
+    );
+
+    // The emailed link lets attendees cancel after leaving the page
+    await queueBookingEmail(createdBooking.status, createdBooking, event);
+
+    // The cancel token is the attendee's secret and never leaves the app
+    const booking = toBookingDTO(createdBooking.toObject());
+    dispatchWebhookEvent(
+      "booking.created",
+      { booking, event: toWebhookEvent(event) },
+      event.owner
+    );
+
+    return {
+      ok: true,
+      data: {
+        ...booking,
+        cancelToken,
+      },
+    };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return {
+        ok: false,
+        code: "VALIDATION_ERROR",
+        message: "Validation failed",
+        issues: error.issues,
+      };
+    }
+
+    // Check for duplicate booking error (MongoDB E11000)
+    if (error instanceof Error && error.message.includes("E11000")) {
+      return {
+        ok: false,
+        code: "CONFLICT",
+        message: "You're already registered for this event",
+      };
+    }
+
+    console.error("[createBooking] Error:", error);
+
+    return {
+      ok: false,
+      code: "UNKNOWN",
+      message: "Failed to book your spot",
+    };
+  }
+}
+
+/**
+ * Utility: Map a rejected cancellation token to an action error
+ */
+function tokenError(reason: "invalid" | "expired"): ActionResult<never> {
+  return {
+    ok: false,
+    code: "UNAUTHORIZED",
+    message:
+      reason === "expired"
+        ? "This cancellation link has expired"
+        : "This cancellation link is invalid",
+  };
+}
+
+/**
+ * Get Booking By Cancellation Token
+ * Retrieves the booking a cancellation link points to, with its event
+ *
+ * @param token - Signed cancellation token
+ * @returns ActionResult with booking and event data or error
+ */
+export const getBookingByCancellationToken = cache(
+  async (token: string): Promise<ActionResult<BookingCancellationDTO>> => {
+    try {
+      const verified = verifyCancellationToken(token);
+
+      if (!verified.ok) {
+        return tokenError(verified.reason);
+      }
+
+      await connectDB();
+
+      const booking = await Booking.findById(verified.bookingId).lean().exec();
+
+      if (!booking) {
+        return {
+          ok: false,
+          code: "NOT_FOUND",
+          message: "This booking has already been cancelled",
+        };
+      }
+
+      const event = await Event.findById(booking.eventId)
+        .select("title slug date time")
+        .lean()
+        .exec();
+
+      if (!event) {
+        return {
+          ok: false,
+          code: "NOT_FOUND",
+          message: "This event no longer exists",
+        };
+      }
+
+      return {
+        ok: true,
+        data: {
+          booking: toBookingDTO(booking),
+          event: {
+            _id: event._id.toString(),
+            title: event.title,
+            slug: event.slug,
+            date: event.date,
+            time: event.time,
+          },
+        },
+      };
+    } catch (error) {
+      console.error("[getBookingByCancellationToken] Error:", error);
+
+      return {
+        ok: false,
+        code: "UNKNOWN",
+        message: "Failed to fetch booking",
+      };
+    }
+  }
+);
+
+/**
+ * Cancel Booking
+ * Cancels the booking identified by a signed cancellation token
+ *
+ * @param prevState - Previous state (for useActionState compatibility)
+ * @param formData - FormData containing the cancellation token
+ * @returns ActionResult with the cancelled booking or error
+ */
+export async function cancelBooking(
+  prevState: ActionResult<BookingDTO> | null,
+  formData: FormData
+): Promise<ActionResult<BookingDTO>> {
+  return cancelBookingDirect(String(formData.get("token") ?? ""));
+}
+
+/**
+ * Cancel Booking Direct
+ * Direct version of cancelBooking without state parameter
+ * Removing a confirmed booking hands its seat to the next waitlisted attendee
+ *
+ * @param token - Signed cancellation token
+ * @returns ActionResult with the cancelled booking or error
+ */
+export async function cancelBookingDirect(
+  token: string
+): Promise<ActionResult<BookingDTO>> {
+  try {
+    const verified = verifyCancellationToken(token);
+
+    if (!verified.ok) {
+      return tokenError(verified.reason);
+    }
+
+    await connectDB();
+
+    const cancelledBooking = await Booking.findOneAndDelete({
+      _id: verified.bookingId,
+    }).exec();
+
+    if (!cancelledBooking) {
+      return {
+        ok: false,
+        code: "NOT_FOUND",
+        message: "This booking has already been cancelled",
+      };
+    }
+
+    const eventId = cancelledBooking.eventId.toString();
+
+    // Waitlisted bookings never held a seat
+    if (cancelledBooking.status === "confirmed") {
+      await handOverSeat(eventId);
+    }
+
+    const event = await Event.findById(eventId)
+      .select("title slug owner")
+      .lean()
+      .exec();
+    const booking = toBookingDTO(cancelledBooking.toObject());
+
+    // Invalidate the cached count and the event page
+    updateTag(cacheTags.bookingCount(eventId));
+    if (event) {
+      revalidatePath(`/events/${event.slug}`);
+      dispatchWebhookEvent(
+        "booking.cancelled",
+        { booking, event: toWebhookEvent(event) },
+        event.owner
+      );
+    }
+
+    return {
+      ok: true,
+      data: booking,
+    };
+  } catch (error) {
+    console.error("[cancelBooking] Error:", error);
+
+    return {
+      ok: false,
+      code: "UNKNOWN",
+      message: "Failed to cancel booking",
+    };
+  }
+}
@@ -0,0 +1,126 @@
+"use server";
+
+/**
+ * Import Server Actions
+ * Bulk event import for the admin upload page
+ */
+
+import "server-only";
+import { Event } from "@/database";
+import { verifyApiKey } from "@/lib/api-auth";
+import { insertEventFromObject } from "@/lib/event-creation";
+import {
+  getImportFormat,
+  importEventRows,
+  parseImportFile,
+} from "@/lib/event-import";
+import { fetchImageFile, isImageUrl } from "@/lib/image-files";
+import type { ActionResult } from "@/lib/types/actions";
+import type { EventImportReportDTO } from "@/lib/types/dtos";
+
+/**
+ * Import Events
+ * Imports events from an uploaded CSV or JSON file
+ *
+ * @param prevState - Previous state (for useActionState compatibility)
+ * @param formData - FormData containing apiKey, file, images and dryRun
+ * @returns ActionResult with the per-row report or error
+ */
+export async function importEvents(
+  prevState: ActionResult<EventImportReportDTO> | null,
+  formData: FormData
+): Promise<ActionResult<EventImportReportDTO>> {
+  return importEventsDirect(formData);
+}
+
+/**
+ * Import Events Direct
+ * Direct version of importEvents without state parameter
+ * Needs an API key with the events:write scope; imported events belong to
+ * its owner. Local image paths in the file are matched by file name against
+ * the uploaded images, since the server can't read the uploader's disk
+ *
+ * @param formData - FormData containing apiKey, file, images and dryRun
+ * @returns ActionResult with the per-row report or error
+ */
+export async function importEventsDirect(
+  formData: FormData
+): Promise<ActionResult<EventImportReportDTO>> {
+  try {
+    const apiKey = formData.get("apiKey");
+
+    if (typeof apiKey !== "string" || !apiKey.trim()) {
+      return {
+        ok: false,
+        code: "UNAUTHORIZED",
+        message: "An API key with the events:write scope is required",
+      };
+    }
+
+    const auth = await verifyApiKey(apiKey.trim(), "events:write");
+
+    if (!auth.ok) {
+      return auth;
+    }
+
+    const file = formData.get("file");
+    const format = file instanceof File ? getImportFormat(file.name) : null;
+
+    if (!(file instanceof File) || !format) {
+      return {
+        ok: false,
+        code: "VALIDATION_ERROR",
+        message: "Choose a .csv or .json file to import",
+      };
+    }
+
+    let rows: unknown[];
+    try {
+      rows = parseImportFile(await file.text(), format);
+    } catch (error) {
+      return {
+        ok: false,
+        code: "VALIDATION_ERROR",
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const images = new Map<string, File>();
+    for (const image of formData.getAll("images")) {
+      if (image instanceof File && image.size > 0) {
+        images.set(image.name, image);
+      }
+    }
+
+    const report = await importEventRows(rows, {
+      dryRun: formData.get("dryRun") === "on",
+      slugExists: async (slug) => Boolean(await Event.exists({ slug })),
+      resolveImage: async (source) => {
+        if (isImageUrl(source)) {
+          return fetchImageFile(source);
+        }
+
+        const name = source.split(/[\\/]/).pop() ?? source;
+        const image = images.get(name);
+
+        if (!image) {
+          throw new Error(`Upload ${name} together with the file`);
+        }
+
+        return image;
+      },
+      createEvent: (data, image) =>
+        insertEventFromObject(data, image, auth.data.owner),
+    });
+
+    return { ok: true, data: report };
+  } catch (error) {
+    console.error("[importEvents] Error:", error);
+
+    return {
+      ok: false,
+      code: "UNKNOWN",
+      message: "Failed to import events",
+    };
+  }
+}
@@ -0,0 +1,91 @@
+"use server";
+
+/**
+ * Organizer Server Actions
+ * Sign-in and sign-out for event organizers
+ */
+
+import "server-only";
+import { cookies } from "next/headers";
+import { verifyApiKey } from "@/lib/api-auth";
+import {
+  ORGANIZER_COOKIE,
+  ORGANIZER_SESSION_MAX_AGE,
+} from "@/lib/organizer-session";
+import type { ActionResult } from "@/lib/types/actions";
+import type { OrganizerDTO } from "@/lib/types/dtos";
+
+/**
+ * Sign In
+ * Signs an organizer in with an API key
+ *
+ * @param prevState - Previous state (for useActionState compatibility)
+ * @param formData - FormData containing apiKey
+ * @returns ActionResult with the organizer or error
+ */
+export async function signIn(
+  prevState: ActionResult<OrganizerDTO> | null,
+  formData: FormData
+): Promise<ActionResult<OrganizerDTO>> {
+  return signInDirect(formData);
+}
+
+/**
+ * Sign In Direct
+ * Direct version of signIn without state parameter
+ * Needs an API key with the events:write scope; events created while
+ * signed in belong to its owner
+ *
+ * @param formData - FormData containing apiKey
+ * @returns ActionResult with the organizer or error
+ */
+export async function signInDirect(
+  formData: FormData
+): Promise<ActionResult<OrganizerDTO>> {
+  try {
+    const apiKey = formData.get("apiKey");
+
+    if (typeof apiKey !== "string" || !apiKey.trim()) {
+      return {
+        ok: false,
+        code: "UNAUTHORIZED",
+        message: "An API key with the events:write scope is required",
+      };
+    }
+
+    const auth = await verifyApiKey(apiKey.trim(), "events:write");
+
+    if (!auth.ok) {
+      return auth;
+    }
+
+    (await cookies()).set(ORGANIZER_COOKIE, apiKey.trim(), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: ORGANIZER_SESSION_MAX_AGE,
+    });
+
+    return {
+      ok: true,
+      data: { name: auth.data.name, owner: auth.data.owner },
+    };
+  } catch (error) {
+    console.error("[signIn] Error:", error);
+
+    return {
+      ok: false,
+      code: "UNKNOWN",
+      message: "Failed to sign in",
+    };
+  }
+}
+
+/**
+ * Sign Out
+ * Forgets the organizer's API key; the key itself stays valid
+ */
+export async function signOut(): Promise<void> {
+  (await cookies()).delete(ORGANIZER_COOKIE);
+}
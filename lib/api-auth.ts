@@ -0,0 +1,53 @@
+/**
+ * API Authentication
+ * Resolves the organizer API key sent with a request
+ */
+
+import "server-only";
+import connectDB from "@/database/mongodb";
+import type { ApiKeyScope } from "@/database";
+import { lookupApiKey, type ApiKeyIdentity } from "@/lib/api-keys";
+import type { ActionResult } from "@/lib/types/actions";
+
+/**
+ * Authenticate API Key
+ * Expects `Authorization: Bearer <key>` and records when the key was used
+ *
+ * @param request - Incoming request
+ * @param scope - Scope the operation requires
+ * @returns ActionResult with the key's identity, or UNAUTHORIZED
+ */
+export async function authenticateApiKey(
+  request: Request,
+  scope: ApiKeyScope
+): Promise<ActionResult<ApiKeyIdentity>> {
+  const [scheme, key] = (request.headers.get("authorization") ?? "").split(" ");
+
+  if (scheme?.toLowerCase() !== "bearer" || !key) {
+    return {
+      ok: false,
+      code: "UNAUTHORIZED",
+      message: "Missing API key. Send it as 'Authorization: Bearer <key>'",
+    };
+  }
+
+  return verifyApiKey(key, scope);
+}
+
+/**
+ * Verify API Key
+ * Checks a key given outside the Authorization header, e.g. in a form,
+ * and records when the key was used
+ *
+ * @param key - Full API key
+ * @param scope - Scope the operation requires
+ * @returns ActionResult with the key's identity, or UNAUTHORIZED
+ */
+export async function verifyApiKey(
+  key: string,
+  scope: ApiKeyScope
+): Promise<ActionResult<ApiKeyIdentity>> {
+  await connectDB();
+
+  return lookupApiKey(key, scope);
+}
@@ -0,0 +1,103 @@
+/**
+ * API Keys
+ * Generation and hashing of organizer API keys
+ *
+ * Keys are shown once when issued; only their SHA-256 hash is stored.
+ * Not server-only so the key management and export scripts can use it too;
+ * callers of lookupApiKey must be connected to MongoDB.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { ApiKey, type ApiKeyScope } from "@/database";
+import type { ActionResult } from "@/lib/types/actions";
+
+/**
+ * Identity behind an API key
+ */
+export interface ApiKeyIdentity {
+  keyId: string;
+  name: string;
+  owner: string;
+}
+
+/**
+ * Prefix that makes keys easy to recognize, e.g. in secret scanners
+ */
+const KEY_PREFIX = "devevent_";
+
+/**
+ * Hash API Key
+ * Keys are long random strings, so a fast unsalted hash is enough
+ *
+ * @param key - Plain-text key
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Generate API Key
+ *
+ * @returns The plain-text key, its display prefix and its hash
+ */
+export function generateApiKey(): {
+  key: string;
+  prefix: string;
+  keyHash: string;
+} {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+  return {
+    key,
+    // Enough to tell keys apart in listings without revealing them
+    prefix: key.slice(0, KEY_PREFIX.length + 8),
+    keyHash: hashApiKey(key),
+  };
+}
+
+/**
+ * Lookup API Key
+ * Finds an active key with the required scope and records when it was used
+ *
+ * @param key - Full API key
+ * @param scope - Scope the operation requires
+ * @returns ActionResult with the key's identity, or UNAUTHORIZED
+ */
+export async function lookupApiKey(
+  key: string,
+  scope: ApiKeyScope
+): Promise<ActionResult<ApiKeyIdentity>> {
+  const apiKey = await ApiKey.findOneAndUpdate(
+    { keyHash: hashApiKey(key), revokedAt: null },
+    { lastUsedAt: new Date() },
+    { new: true }
+  )
+    .lean()
+    .exec();
+
+  if (!apiKey) {
+    return {
+      ok: false,
+      code: "UNAUTHORIZED",
+      message: "Invalid or revoked API key",
+    };
+  }
+
+  if (!apiKey.scopes.includes(scope)) {
+    return {
+      ok: false,
+      code: "UNAUTHORIZED",
+      message: `This API key does not have the ${scope} scope`,
+    };
+  }
+
+  return {
+    ok: true,
+    data: {
+      keyId: String(apiKey._id),
+      name: apiKey.name,
+      owner: apiKey.owner,
+    },
+  };
+}
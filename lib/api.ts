@@ -0,0 +1,126 @@
+/**
+ * Public API Helpers
+ * Shared responses for the JSON route handlers under app/api
+ */
+
+import { createHash } from "node:crypto";
+import type { ActionErrorCode, ActionResult } from "@/lib/types/actions";
+
+/**
+ * CORS headers allowing cross-origin calls from any site
+ * Writes need an API key, so no cookies are involved
+ */
+export const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Authorization, Content-Type, If-None-Match, If-Modified-Since",
+  "Access-Control-Expose-Headers": "ETag, Last-Modified, Content-Disposition",
+  "Access-Control-Max-Age": "86400",
+};
+
+/**
+ * HTTP status for each ActionResult error code
+ */
+export const ERROR_STATUS: Record<ActionErrorCode, number> = {
+  VALIDATION_ERROR: 400,
+  UNAUTHORIZED: 401,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  UNKNOWN: 500,
+};
+
+/**
+ * Utility: Whether the client's cached copy is still current
+ * If-None-Match wins over If-Modified-Since, as RFC 9110 requires
+ */
+function isNotModified(
+  request: Request,
+  etag: string,
+  lastModified?: Date
+): boolean {
+  const ifNoneMatch = request.headers.get("if-none-match");
+
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(",")
+      .map((tag) => tag.trim().replace(/^W\//, ""))
+      .some((tag) => tag === etag || tag === "*");
+  }
+
+  const ifModifiedSince = request.headers.get("if-modified-since");
+
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    return (
+      !isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since
+    );
+  }
+
+  return false;
+}
+
+/**
+ * API JSON Response
+ * Adds ETag, Last-Modified and CORS headers, answering 304 when the
+ * client's copy is current
+ *
+ * @param request - Incoming request, for conditional headers
+ * @param data - Response body
+ * @param lastModified - When the underlying data last changed
+ * @returns JSON response, or an empty 304
+ */
+export function apiJson(
+  request: Request,
+  data: unknown,
+  lastModified?: Date
+): Response {
+  const body = JSON.stringify(data);
+  const etag = `"${createHash("sha1").update(body).digest("base64url")}"`;
+
+  const headers: Record<string, string> = {
+    ...CORS_HEADERS,
+    ETag: etag,
+    "Cache-Control": "public, max-age=0, must-revalidate",
+    ...(lastModified && { "Last-Modified": lastModified.toUTCString() }),
+  };
+
+  if (isNotModified(request, etag, lastModified)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(body, {
+    headers: { ...headers, "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+/**
+ * API Error Response
+ * Maps a failed ActionResult to its HTTP status
+ *
+ * @param result - Failed action result
+ * @returns JSON error response
+ */
+export function apiError(
+  result: Extract<ActionResult<unknown>, { ok: false }>
+): Response {
+  return Response.json(
+    {
+      error: {
+        code: result.code,
+        message: result.message,
+        ...(result.issues && { issues: result.issues }),
+      },
+    },
+    { status: ERROR_STATUS[result.code], headers: CORS_HEADERS }
+  );
+}
+
+/**
+ * API Preflight Response
+ * Answers CORS preflight requests
+ */
+export function apiOptions(): Response {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { exportAttendees } from "@/lib/attendees";
+import type { AttendeeListDTO } from "@/lib/types/dtos";
+
+const list: AttendeeListDTO = {
+  event: {
+    _id: "665f1c2b9a1e4b0012345678",
+    title: "React Summit",
+    slug: "react-summit",
+    date: "2030-05-01",
+    time: "09:30",
+  },
+  attendees: [
+    {
+      bookingId: "b1",
+      email: "ada@example.com",
+      status: "confirmed",
+      waitlistPosition: null,
+      createdAt: "2030-01-01T00:00:00.000Z",
+      updatedAt: "2030-01-01T00:00:00.000Z",
+    },
+    {
+      bookingId: "b2",
+      email: '=HYPERLINK("x"),"evil"@example.com',
+      status: "waitlisted",
+      waitlistPosition: 1,
+      createdAt: "2030-01-02T00:00:00.000Z",
+      updatedAt: "2030-01-02T00:00:00.000Z",
+    },
+  ],
+  confirmed: 1,
+  waitlisted: 1,
+};
+
+describe("exportAttendees", () => {
+  it("writes a CSV with a header row and CRLF line endings", () => {
+    const { body, contentType, filename } = exportAttendees(list, "csv");
+    const lines = String(body).split("\r\n");
+
+    assert.equal(contentType, "text/csv; charset=utf-8");
+    assert.equal(filename, "react-summit-attendees.csv");
+    assert.equal(
+      lines[0],
+      "Booking ID,Email,Status,Waitlist position,Booked at,Updated at"
+    );
+    assert.equal(
+      lines[1],
+      "b1,ada@example.com,confirmed,,2030-01-01T00:00:00.000Z,2030-01-01T00:00:00.000Z"
+    );
+    assert.equal(lines.at(-1), "");
+  });
+
+  it("quotes cells and defuses spreadsheet formulas", () => {
+    const { body } = exportAttendees(list, "csv");
+    const row = String(body).split("\r\n")[2];
+
+    assert.ok(
+      row.startsWith(
+        `b2,"'=HYPERLINK(""x""),""evil""@example.com",waitlisted,1,`
+      )
+    );
+  });
+
+  it("exports the list as JSON", () => {
+    const { body, contentType } = exportAttendees(list, "json");
+
+    assert.equal(contentType, "application/json; charset=utf-8");
+    assert.deepEqual(JSON.parse(String(body)), list);
+  });
+
+  it("exports a zipped workbook as XLSX", () => {
+    const { body, filename } = exportAttendees(list, "xlsx");
+
+    assert.equal(filename, "react-summit-attendees.xlsx");
+    assert.ok(body instanceof Uint8Array);
+    assert.equal(Buffer.from(body).readUInt32LE(0), 0x04034b50);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Attendees
+ * Attendee lists and exports for event organizers
+ *
+ * Not server-only so the export script can use it; callers must be
+ * connected to MongoDB.
+ */
+
+import { ZodError } from "zod";
+import { Booking, Event } from "@/database";
+import type { ActionResult } from "@/lib/types/actions";
+import type { AttendeeDTO, AttendeeListDTO } from "@/lib/types/dtos";
+import type { AttendeeExportFormat } from "@/lib/validation/attendees";
+import { slugSchema } from "@/lib/validation/events";
+import { buildXlsx, XLSX_CONTENT_TYPE, type XlsxCell } from "@/lib/xlsx";
+
+/**
+ * Export file contents and how to serve them
+ */
+export interface AttendeeExport {
+  body: string | Uint8Array<ArrayBuffer>;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * Column headers, in the order of the exported cells
+ */
+const EXPORT_COLUMNS = [
+  "Booking ID",
+  "Email",
+  "Status",
+  "Waitlist position",
+  "Booked at",
+  "Updated at",
+];
+
+/**
+ * Get Event Attendees
+ * Bookings have no custom questions, so an attendee is their email, status
+ * and timestamps
+ *
+ * @param slug - Event slug
+ * @param owner - Owner email of the caller's API key
+ * @returns ActionResult with the attendee list, or UNAUTHORIZED when the
+ *   caller does not own the event
+ */
+export async function getEventAttendees(
+  slug: string,
+  owner: string
+): Promise<ActionResult<AttendeeListDTO>> {
+  try {
+    const validatedSlug = slugSchema.parse(slug.toLowerCase().trim());
+
+    const event = await Event.findOne({ slug: validatedSlug })
+      .select("title slug date time owner")
+      .lean()
+      .exec();
+
+    if (!event) {
+      return {
+        ok: false,
+        code: "NOT_FOUND",
+        message: `Event with slug '${validatedSlug}' not found`,
+      };
+    }
+
+    // Events created before organizers signed in have no owner until one
+    // is assigned with the events:owner script, so nobody can export them
+    if (!event.owner || event.owner !== owner.toLowerCase()) {
+      return {
+        ok: false,
+        code: "UNAUTHORIZED",
+        message: "Only the event's owner can export its attendees",
+      };
+    }
+
+    // Oldest first, the order the waitlist is promoted in
+    const bookings = await Booking.find({ eventId: event._id })
+      .sort({ createdAt: 1, _id: 1 })
+      .lean()
+      .exec();
+
+    let waitlisted = 0;
+    const attendees = bookings.map((booking): AttendeeDTO => {
+      // Bookings made before the waitlist existed have no status
+      const status = booking.status ?? "confirmed";
+
+      return {
+        bookingId: String(booking._id),
+        email: booking.email,
+        status,
+        waitlistPosition: status === "waitlisted" ? ++waitlisted : null,
+        createdAt: booking.createdAt.toISOString(),
+        updatedAt: booking.updatedAt.toISOString(),
+      };
+    });
+
+    return {
+      ok: true,
+      data: {
+        event: {
+          _id: String(event._id),
+          title: event.title,
+          slug: event.slug,
+          date: event.date,
+          time: event.time,
+        },
+        attendees,
+        confirmed: attendees.length - waitlisted,
+        waitlisted,
+      },
+    };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return {
+        ok: false,
+        code: "VALIDATION_ERROR",
+        message: "Invalid slug format",
+        issues: error.issues,
+      };
+    }
+
+    console.error("[getEventAttendees] Error:", error);
+
+    return {
+      ok: false,
+      code: "UNKNOWN",
+      message: "Failed to fetch attendees",
+    };
+  }
+}
+
+/**
+ * Utility: Quote a CSV cell when needed (RFC 4180)
+ * Cells that spreadsheets would run as formulas are prefixed with '
+ */
+function toCsvCell(value: XlsxCell): string {
+  if (value === null) {
+    return "";
+  }
+
+  let text = String(value);
+
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export Attendees
+ *
+ * @param list - Attendee list from getEventAttendees
+ * @param format - File format
+ * @returns File contents, MIME type and a download file name
+ */
+export function exportAttendees(
+  list: AttendeeListDTO,
+  format: AttendeeExportFormat
+): AttendeeExport {
+  const filename = `${list.event.slug}-attendees.${format}`;
+
+  if (format === "json") {
+    return {
+      body: JSON.stringify(list, null, 2),
+      contentType: "application/json; charset=utf-8",
+      filename,
+    };
+  }
+
+  const rows: XlsxCell[][] = [
+    EXPORT_COLUMNS,
+    ...list.attendees.map((attendee) => [
+      attendee.bookingId,
+      attendee.email,
+      attendee.status,
+      attendee.waitlistPosition,
+      attendee.createdAt,
+      attendee.updatedAt,
+    ]),
+  ];
+
+  if (format === "xlsx") {
+    return {
+      body: new Uint8Array(buildXlsx("Attendees", rows)),
+      contentType: XLSX_CONTENT_TYPE,
+      filename,
+    };
+  }
+
+  return {
+    body: rows.map((row) => row.map(toCsvCell).join(",")).join("\r\n") + "\r\n",
+    contentType: "text/csv; charset=utf-8",
+    filename,
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Booking DTOs
+ * Shared by the booking actions and event deletion
+ */
+
+import type { IBooking } from "@/database";
+import type { BookingDTO, BookingWebhookDTO } from "@/lib/types/dtos";
+
+/**
+ * Utility: Transform Mongoose document to BookingDTO
+ * Removes Mongoose-specific fields and ensures clean serialization
+ */
+export function toBookingDTO(
+  doc: Pick<
+    IBooking,
+    "eventId" | "email" | "status" | "createdAt" | "updatedAt"
+  > & {
+    _id: unknown;
+  }
+): BookingDTO {
+  return {
+    _id: String(doc._id),
+    eventId: doc.eventId.toString(),
+    email: doc.email,
+    // Bookings made before the waitlist existed have no status
+    status: doc.status ?? "confirmed",
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Utility: Event summary sent with booking webhooks
+ */
+export function toWebhookEvent(doc: {
+  _id: unknown;
+  title: string;
+  slug: string;
+}): BookingWebhookDTO["event"] {
+  return { _id: String(doc._id), title: doc.title, slug: doc.slug };
+}
@@ -0,0 +1,107 @@
+/**
+ * Booking Emails
+ * Queues the emails attendees get about their booking, each carrying the
+ * link to cancel it, for the notification worker to send
+ */
+
+import "server-only";
+import { Notification, type NotificationType } from "@/database";
+import { createCancellationToken } from "@/lib/booking-tokens";
+import { getEventStart } from "@/lib/event-dates";
+import { absoluteUrl } from "@/lib/site";
+
+/**
+ * Why the attendee is being emailed
+ * promoted: moved from the waitlist to a seat
+ */
+export type BookingEmailKind = "confirmed" | "waitlisted" | "promoted";
+
+/**
+ * Event fields the emails mention
+ */
+export interface BookingEmailEvent {
+  title: string;
+  date: string;
+  time: string;
+}
+
+/**
+ * Notification stored for each kind; the confirmation of a new booking
+ * covers both outcomes
+ */
+const NOTIFICATION_TYPES: Record<BookingEmailKind, NotificationType> = {
+  confirmed: "booking_confirmed",
+  waitlisted: "booking_confirmed",
+  promoted: "booking_promoted",
+};
+
+/**
+ * Build Booking Email
+ *
+ * @param kind - Why the attendee is being emailed
+ * @param event - Event the booking is for
+ * @param cancelUrl - Absolute cancellation link
+ * @returns Subject and plain-text message
+ */
+export function buildBookingEmail(
+  kind: BookingEmailKind,
+  event: BookingEmailEvent,
+  cancelUrl: string
+): { subject: string; message: string } {
+  const when = `"${event.title}" on ${event.date} at ${event.time}`;
+
+  switch (kind) {
+    case "waitlisted":
+      return {
+        subject: `You're on the waitlist for ${event.title}`,
+        message: `${when} is full, so you're on the waitlist. We'll give you a seat as soon as one opens up.\n\nTo leave the waitlist, use this link until the event starts:\n${cancelUrl}`,
+      };
+    case "promoted":
+      return {
+        subject: `You've got a seat at ${event.title}`,
+        message: `Good news: a seat opened up for ${when}, and it's yours. Your booking is now confirmed.\n\nCan't make it after all? Cancel with this link until the event starts, so the seat goes to the next person waiting:\n${cancelUrl}`,
+      };
+    default:
+      return {
+        subject: `You're booked for ${event.title}`,
+        message: `Your booking for ${when} is confirmed.\n\nPlans changed? Cancel your booking with this link until the event starts:\n${cancelUrl}`,
+      };
+  }
+}
+
+/**
+ * Queue Booking Email
+ * Keyed by booking and type, so a retried write queues the email only once.
+ * The booking change has already happened, so a failure here is logged,
+ * not thrown
+ *
+ * @param kind - Why the attendee is being emailed
+ * @param booking - Booking the email is about
+ * @param event - Event the booking is for
+ */
+export async function queueBookingEmail(
+  kind: BookingEmailKind,
+  booking: { _id: unknown; email: string },
+  event: BookingEmailEvent
+): Promise<void> {
+  try {
+    // Cancellation stays possible until the event starts
+    const cancelToken = createCancellationToken(
+      String(booking._id),
+      getEventStart(event.date, event.time)
+    );
+    const email = buildBookingEmail(
+      kind,
+      event,
+      absoluteUrl(`/bookings/cancel/${cancelToken}`)
+    );
+
+    await Notification.updateOne(
+      { bookingId: booking._id, type: NOTIFICATION_TYPES[kind] },
+      { $setOnInsert: { email: booking.email, ...email } },
+      { upsert: true }
+    ).exec();
+  } catch (error) {
+    console.error("[queueBookingEmail] Error:", error);
+  }
+}
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import {
+  createCancellationToken,
+  verifyCancellationToken,
+} from "@/lib/booking-tokens";
+
+const BOOKING_ID = "665f1c2b9a1e4b0012345678";
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("cancellation tokens", () => {
+  beforeEach(() => {
+    process.env.BOOKING_TOKEN_SECRET = "test-secret";
+  });
+
+  it("accepts a fresh token and returns its booking", () => {
+    const token = createCancellationToken(
+      BOOKING_ID,
+      new Date(Date.now() + HOUR_MS)
+    );
+
+    assert.deepEqual(verifyCancellationToken(token), {
+      ok: true,
+      bookingId: BOOKING_ID,
+    });
+  });
+
+  it("rejects an expired token", () => {
+    const token = createCancellationToken(
+      BOOKING_ID,
+      new Date(Date.now() - HOUR_MS)
+    );
+
+    assert.deepEqual(verifyCancellationToken(token), {
+      ok: false,
+      reason: "expired",
+    });
+  });
+
+  it("rejects a token whose payload was changed", () => {
+    const token = createCancellationToken(
+      BOOKING_ID,
+      new Date(Date.now() + HOUR_MS)
+    );
+    const [, signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ b: "665f1c2b9a1e4b0087654321", exp: 4102444800 })
+    ).toString("base64url");
+
+    assert.deepEqual(verifyCancellationToken(`${forged}.${signature}`), {
+      ok: false,
+      reason: "invalid",
+    });
+  });
+
+  it("rejects a token signed with another secret", () => {
+    const token = createCancellationToken(
+      BOOKING_ID,
+      new Date(Date.now() + HOUR_MS)
+    );
+    process.env.BOOKING_TOKEN_SECRET = "rotated-secret";
+
+    assert.equal(verifyCancellationToken(token).ok, false);
+  });
+
+  it("rejects malformed tokens", () => {
+    for (const token of ["", "abc", "a.b.c", "not-base64.sig"]) {
+      assert.deepEqual(verifyCancellationToken(token), {
+        ok: false,
+        reason: "invalid",
+      });
+    }
+  });
+
+  it("fails loudly without a secret", () => {
+    delete process.env.BOOKING_TOKEN_SECRET;
+
+    assert.throws(
+      () => createCancellationToken(BOOKING_ID, new Date()),
+      /BOOKING_TOKEN_SECRET/
+    );
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Booking Cancellation Tokens
+ * Signed, expiring tokens that let attendees cancel without an account
+ *
+ * Format: base64url(JSON payload) + "." + base64url(HMAC-SHA256 signature)
+ */
+
+import "server-only";
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Token payload
+ * b: booking ID, exp: expiry as a UNIX timestamp in seconds
+ */
+interface CancellationTokenPayload {
+  b: string;
+  exp: number;
+}
+
+export type CancellationTokenResult =
+  | { ok: true; bookingId: string }
+  | { ok: false; reason: "invalid" | "expired" };
+
+/**
+ * Utility: Secret used to sign cancellation tokens
+ * Read on use so pages that never sign or verify a token still render
+ * when it is missing
+ */
+function getSecret(): string {
+  const secret = process.env.BOOKING_TOKEN_SECRET;
+
+  if (!secret) {
+    throw new Error(
+      "Missing BOOKING_TOKEN_SECRET environment variable. Please check your .env file."
+    );
+  }
+
+  return secret;
+}
+
+/**
+ * Utility: Sign the encoded payload
+ */
+function sign(encodedPayload: string): string {
+  return createHmac("sha256", getSecret())
+    .update(encodedPayload)
+    .digest("base64url");
+}
+
+/**
+ * Create Cancellation Token
+ *
+ * @param bookingId - Booking the token is allowed to cancel
+ * @param expiresAt - Moment after which the token is rejected
+ * @returns Signed token, safe to use in a URL path segment
+ */
+export function createCancellationToken(
+  bookingId: string,
+  expiresAt: Date
+): string {
+  const payload: CancellationTokenPayload = {
+    b: bookingId,
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  };
+
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString(
+    "base64url"
+  );
+
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+/**
+ * Verify Cancellation Token
+ * Checks the signature in constant time before trusting the payload
+ *
+ * @param token - Token taken from the cancellation URL
+ * @returns The booking ID, or why the token was rejected
+ */
+export function verifyCancellationToken(
+  token: string
+): CancellationTokenResult {
+  const [encodedPayload, signature, ...rest] = token.split(".");
+
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return { ok: false, reason: "invalid" };
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const received = Buffer.from(signature);
+
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    return { ok: false, reason: "invalid" };
+  }
+
+  let payload: CancellationTokenPayload;
+  try {
+    payload = JSON.parse(
+      Buffer.from(encodedPayload, "base64url").toString("utf8")
+    );
+  } catch {
+    return { ok: false, reason: "invalid" };
+  }
+
+  if (typeof payload.b !== "string" || typeof payload.exp !== "number") {
+    return { ok: false, reason: "invalid" };
+  }
+
+  if (payload.exp * 1000 < Date.now()) {
+    return { ok: false, reason: "expired" };
+  }
+
+  return { ok: true, bookingId: payload.b };
+}
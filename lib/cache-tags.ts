@@ -0,0 +1,11 @@
+/**
+ * Cache Tags
+ * Centralized tag names used by "use cache" readers and their invalidation
+ */
+
+export const cacheTags = {
+  /**
+   * Tag for the cached booking count of a single event
+   */
+  bookingCount: (eventId: string) => `booking-count:${eventId}`,
+};
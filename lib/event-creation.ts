@@ -0,0 +1,170 @@
+/**
+ * Event Creation
+ * Creates events on behalf of an owner. Server-only rather than a server
+ * action, so callers decide who the owner is: the signed-in organizer on the
+ * site, or the API key's owner in the API and the bulk import
+ */
+
+import "server-only";
+import { revalidatePath } from "next/cache";
+import { ZodError } from "zod";
+import connectDB from "@/database/mongodb";
+import { Event } from "@/database";
+import { uploadImageToCloudinary } from "@/lib/cloudinary";
+import { toEventDTO } from "@/lib/event-dtos";
+import type { ActionResult } from "@/lib/types/actions";
+import type { EventDTO } from "@/lib/types/dtos";
+import {
+  createEventSchema,
+  imageFileSchema,
+  type CreateEventInput,
+} from "@/lib/validation/events";
+import { dispatchWebhookEvent } from "@/lib/webhook-dispatch";
+
+/**
+ * Insert Event
+ * Validates the form fields, uploads the image to Cloudinary and saves the
+ * event with its owner
+ *
+ * @param formData - FormData containing event fields and image
+ * @param owner - Owner email
+ * @returns ActionResult with created event or error
+ */
+export async function insertEvent(
+  formData: FormData,
+  owner: string
+): Promise<ActionResult<EventDTO>> {
+  try {
+    // Extract and validate image first
+    const imageFile = formData.get("image");
+
+    if (!(imageFile instanceof File)) {
+      return {
+        ok: false,
+        code: "VALIDATION_ERROR",
+        message: "Image file is required",
+      };
+    }
+
+    // Validate image
+    const imageValidation = imageFileSchema.safeParse(imageFile);
+    if (!imageValidation.success) {
+      return {
+        ok: false,
+        code: "VALIDATION_ERROR",
+        message: imageValidation.error.issues[0].message,
+        issues: imageValidation.error.issues,
+      };
+    }
+
+    // Parse and validate event data
+    const rawData = {
+      title: formData.get("title"),
+      description: formData.get("description"),
+      overview: formData.get("overview"),
+      venue: formData.get("venue"),
+      location: formData.get("location"),
+      date: formData.get("date"),
+      time: formData.get("time"),
+      mode: formData.get("mode"),
+      audience: formData.get("audience"),
+      organizer: formData.get("organizer"),
+      // Parse JSON arrays for agenda and tags
+      agenda: JSON.parse((formData.get("agenda") as string) || "[]"),
+      tags: JSON.parse((formData.get("tags") as string) || "[]"),
+      // Empty capacity means unlimited seats
+      capacity: formData.get("capacity") || undefined,
+    };
+
+    const validated = createEventSchema.parse(rawData);
+
+    // Upload image to Cloudinary
+    const imageUrl = await uploadImageToCloudinary(imageFile);
+
+    // Connect to DB and create event
+    await connectDB();
+
+    // The owner is part of the same write, so no event is ever ownerless
+    // because a second update failed
+    const eventData = {
+      ...validated,
+      image: imageUrl,
+      owner,
+    };
+
+    const createdEvent = await Event.create(eventData);
+
+    // Revalidate events list and homepage
+    revalidatePath("/");
+    revalidatePath("/events");
+
+    const event = toEventDTO(createdEvent.toObject());
+    dispatchWebhookEvent("event.created", event);
+
+    return {
+      ok: true,
+      data: event,
+    };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return {
+        ok: false,
+        code: "VALIDATION_ERROR",
+        message: "Validation failed",
+        issues: error.issues,
+      };
+    }
+
+    // Check for duplicate slug error (MongoDB E11000)
+    if (error instanceof Error && error.message.includes("E11000")) {
+      return {
+        ok: false,
+        code: "CONFLICT",
+        message: "An event with this title already exists",
+      };
+    }
+
+    console.error("[createEvent] Error:", error);
+
+    return {
+      ok: false,
+      code: "UNKNOWN",
+      message: "Failed to create event",
+    };
+  }
+}
+
+/**
+ * Insert Event From Object
+ * Alternative signature for already validated data, as used by the API and
+ * the bulk import
+ *
+ * @param data - Event data object
+ * @param imageFile - File object for event image
+ * @param owner - Owner email
+ * @returns ActionResult with created event or error
+ */
+export async function insertEventFromObject(
+  data: CreateEventInput,
+  imageFile: File,
+  owner: string
+): Promise<ActionResult<EventDTO>> {
+  const formData = new FormData();
+
+  // Populate FormData from object
+  Object.entries(data).forEach(([key, value]) => {
+    if (value === undefined) {
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      formData.append(key, JSON.stringify(value));
+    } else {
+      formData.append(key, value.toString());
+    }
+  });
+
+  formData.append("image", imageFile);
+
+  return insertEvent(formData, owner);
+}
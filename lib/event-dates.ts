@@ -0,0 +1,42 @@
+/**
+ * Event Date Utilities
+ * Helpers for working with the stored date (YYYY-MM-DD) and time (HH:MM) strings
+ */
+
+/**
+ * Get Event Start
+ * Combines an event's date and time into a Date in server local time
+ *
+ * @param date - Event date in YYYY-MM-DD format
+ * @param time - Event time in HH:MM format
+ * @returns Date for the moment the event starts
+ */
+export function getEventStart(date: string, time: string): Date {
+  return new Date(`${date}T${time.padStart(5, "0")}:00`);
+}
+
+/**
+ * Get Today Date
+ * Today's date in the stored YYYY-MM-DD format, in server local time
+ *
+ * @returns Today's date string
+ */
+export function getTodayDate(): string {
+  const today = new Date();
+  const year = today.getFullYear();
+  const month = String(today.getMonth() + 1).padStart(2, "0");
+  const day = String(today.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Is Past Event
+ * An event is past once its day is over, so same-day events still count
+ * as upcoming
+ *
+ * @param date - Event date in YYYY-MM-DD format
+ * @returns true if the event date is before today
+ */
+export function isPastEvent(date: string): boolean {
+  return date < getTodayDate();
+}
@@ -0,0 +1,34 @@
+/**
+ * Event DTOs
+ * Shared by the event actions and event creation
+ */
+
+import type { EventDTO } from "@/lib/types/dtos";
+
+/**
+ * Utility: Transform Mongoose document to EventDTO
+ * Removes Mongoose-specific fields and ensures clean serialization
+ */
+export function toEventDTO(doc: any): EventDTO {
+  return {
+    _id: doc._id.toString(),
+    title: doc.title,
+    slug: doc.slug,
+    description: doc.description,
+    overview: doc.overview,
+    image: doc.image,
+    venue: doc.venue,
+    location: doc.location,
+    date: doc.date,
+    time: doc.time,
+    mode: doc.mode,
+    audience: doc.audience,
+    agenda: doc.agenda,
+    organizer: doc.organizer,
+    tags: doc.tags,
+    capacity: doc.capacity ?? null,
+    bookedSeats: doc.bookedSeats ?? 0,
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString(),
+  };
+}
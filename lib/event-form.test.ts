@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { withImageFile } from "@/lib/event-form";
+
+const picked = new File([new Uint8Array(16)], "banner.png", {
+  type: "image/png",
+});
+
+describe("withImageFile", () => {
+  it("submits a replaced image even when the file input was cleared", () => {
+    const formData = new FormData();
+    formData.set("title", "React Summit");
+    formData.set("image", new File([], ""));
+
+    const image = withImageFile(formData, picked).get("image");
+
+    assert.ok(image instanceof File);
+    assert.equal(image.name, "banner.png");
+    assert.equal(image.size, 16);
+  });
+
+  it("adds the image when the form has no file field", () => {
+    const image = withImageFile(new FormData(), picked).get("image");
+
+    assert.ok(image instanceof File);
+    assert.equal(image.name, "banner.png");
+  });
+
+  it("leaves the form alone when no image was picked", () => {
+    const formData = new FormData();
+    formData.set("image", new File([], ""));
+
+    const image = withImageFile(formData, null).get("image");
+
+    assert.ok(image instanceof File);
+    assert.equal(image.size, 0);
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Event Form Helpers
+ * Client-safe helpers for the event form's submission
+ */
+
+/**
+ * With Image File
+ * Puts the image the user picked into the submitted form data. React resets
+ * the form after each submission, so the file input can't be relied on to
+ * still hold it
+ *
+ * @param formData - Form data React submits
+ * @param imageFile - Image picked in the form, or null to keep what is there
+ * @returns The same form data, with the image set when one was picked
+ */
+export function withImageFile(
+  formData: FormData,
+  imageFile: File | null
+): FormData {
+  if (imageFile) {
+    formData.set("image", imageFile);
+  }
+
+  return formData;
+}
@@ -0,0 +1,208 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  getImportFormat,
+  importEventRows,
+  MAX_IMPORT_ROWS,
+  parseImportFile,
+  type EventImportHandlers,
+} from "@/lib/event-import";
+
+const fields = {
+  title: "React Summit",
+  description: "A full day of talks about React and its ecosystem.",
+  overview: "Talks and workshops with plenty of time to meet people.",
+  image: "images/react.png",
+  venue: "Arena",
+  location: "Berlin",
+  date: "2030-05-01",
+  time: "09:30",
+  mode: "offline",
+  audience: "Developers",
+  agenda: ["Keynote", "Workshops"],
+  organizer: "React Berlin",
+  tags: ["react", "frontend"],
+};
+
+/**
+ * Utility: Handlers that accept everything, with some overridden
+ */
+function handlers(
+  overrides: Partial<EventImportHandlers> = {}
+): EventImportHandlers {
+  return {
+    dryRun: false,
+    slugExists: async () => false,
+    resolveImage: async (source) =>
+      new File([new Uint8Array(16)], source, { type: "image/png" }),
+    createEvent: async (data) => ({
+      ok: true,
+      data: { slug: data.title.toLowerCase().replace(/\s+/g, "-") },
+    }),
+    ...overrides,
+  };
+}
+
+describe("getImportFormat", () => {
+  it("goes by the file extension", () => {
+    assert.equal(getImportFormat("lineup.CSV"), "csv");
+    assert.equal(getImportFormat("lineup.json"), "json");
+    assert.equal(getImportFormat("lineup.xlsx"), null);
+  });
+});
+
+describe("parseImportFile", () => {
+  it("reads quoted CSV cells, a byte order mark and CRLF line endings", () => {
+    const csv =
+      '﻿title,description\r\n"Rust, in ""production""","Line one\nline two"\r\n\r\n';
+
+    assert.deepEqual(parseImportFile(csv, "csv"), [
+      {
+        title: 'Rust, in "production"',
+        description: "Line one\nline two",
+      },
+    ]);
+  });
+
+  it("accepts a JSON array or an object with an events array", () => {
+    assert.deepEqual(parseImportFile('[{"title":"A"}]', "json"), [
+      { title: "A" },
+    ]);
+    assert.deepEqual(parseImportFile('{"events":[{"title":"B"}]}', "json"), [
+      { title: "B" },
+    ]);
+  });
+
+  it("rejects unreadable, empty and oversized files", () => {
+    assert.throws(() => parseImportFile('title\n"open', "csv"), /unclosed/);
+    assert.throws(() => parseImportFile("{", "json"), /not valid JSON/);
+    assert.throws(() => parseImportFile('{"rows":[]}', "json"), /array/);
+    assert.throws(() => parseImportFile("[]", "json"), /no events/);
+    assert.throws(
+      () =>
+        parseImportFile(
+          JSON.stringify(Array(MAX_IMPORT_ROWS + 1).fill({})),
+          "json"
+        ),
+      /at most/
+    );
+  });
+});
+
+describe("importEventRows", () => {
+  it("splits CSV list cells and creates valid rows", async () => {
+    const [row] = parseImportFile(
+      [
+        Object.keys(fields).join(","),
+        Object.values(fields)
+          .map((value) => (Array.isArray(value) ? value.join(";") : value))
+          .join(","),
+      ].join("\n"),
+      "csv"
+    );
+    const report = await importEventRows([row], handlers());
+
+    assert.deepEqual(report.rows, [
+      {
+        row: 1,
+        title: "React Summit",
+        status: "created",
+        slug: "react-summit",
+        errors: [],
+      },
+    ]);
+    assert.equal(report.succeeded, 1);
+  });
+
+  it("reports invalid rows with field-prefixed errors", async () => {
+    const report = await importEventRows(
+      ["not an object", { ...fields, image: undefined, tags: [] }],
+      handlers()
+    );
+
+    assert.deepEqual(report.rows[0].errors, ["Row must be an object"]);
+    assert.deepEqual(report.rows[1].errors, [
+      "tags: At least one tag is required",
+      "image: Image URL or path is required",
+    ]);
+    assert.equal(report.failed, 2);
+  });
+
+  it("rejects titles whose slug repeats or is already taken", async () => {
+    const report = await importEventRows(
+      [
+        fields,
+        { ...fields, title: "React Summit!" },
+        { ...fields, title: "Taken" },
+      ],
+      handlers({ dryRun: true, slugExists: async (slug) => slug === "taken" })
+    );
+
+    assert.deepEqual(
+      report.rows.map(({ status, errors }) => [status, errors]),
+      [
+        ["valid", []],
+        ["invalid", ["title: Same slug as row 1"]],
+        ["invalid", ["title: An event with this title already exists"]],
+      ]
+    );
+  });
+
+  it("never creates anything in a dry run", async () => {
+    let created = 0;
+    const report = await importEventRows(
+      [fields],
+      handlers({
+        dryRun: true,
+        createEvent: async () => {
+          created++;
+          return { ok: true, data: { slug: "x" } };
+        },
+      })
+    );
+
+    assert.equal(created, 0);
+    assert.equal(report.rows[0].status, "valid");
+    assert.equal(report.dryRun, true);
+  });
+
+  it("keeps going when loading an image or creating an event fails", async () => {
+    const report = await importEventRows(
+      [
+        { ...fields, title: "Missing image", image: "missing.png" },
+        { ...fields, title: "Broken upload" },
+        { ...fields, title: "Conflict" },
+        { ...fields, title: "Fine" },
+      ],
+      handlers({
+        resolveImage: async (source) => {
+          if (source === fields.image) {
+            return new File([new Uint8Array(16)], "a.png", {
+              type: "image/png",
+            });
+          }
+          throw new Error("not found");
+        },
+        createEvent: async (data) => {
+          if (data.title === "Broken upload") {
+            throw new Error("Upload failed");
+          }
+          if (data.title === "Conflict") {
+            return { ok: false, code: "CONFLICT", message: "Taken" };
+          }
+          return { ok: true, data: { slug: "fine" } };
+        },
+      })
+    );
+
+    assert.deepEqual(
+      report.rows.map(({ status, errors }) => [status, errors]),
+      [
+        ["invalid", ["image: not found"]],
+        ["failed", ["Upload failed"]],
+        ["failed", ["Taken"]],
+        ["created", []],
+      ]
+    );
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Event Import
+ * Parses CSV or JSON event lists and imports them row by row
+ *
+ * Rows carry the createEventSchema fields plus `image`, an http(s) URL or a
+ * local path. In CSV, agenda and tags are semicolon-separated or JSON arrays.
+ * The import script and the admin page supply their own slug check, image
+ * lookup and event creation.
+ */
+
+import type { ZodIssue } from "zod";
+import { getEventSlug } from "@/database";
+import type { ActionResult } from "@/lib/types/actions";
+import type { EventImportReportDTO, EventImportRowDTO } from "@/lib/types/dtos";
+import {
+  createEventSchema,
+  imageFileSchema,
+  type CreateEventInput,
+} from "@/lib/validation/events";
+
+/**
+ * Most rows accepted in one import
+ */
+export const MAX_IMPORT_ROWS = 500;
+
+export type ImportFormat = "csv" | "json";
+
+/**
+ * Fields holding lists of strings
+ */
+const LIST_FIELDS = new Set(["agenda", "tags"]);
+
+/**
+ * Image lookup and event creation for importEventRows
+ */
+export interface EventImportHandlers {
+  /** Check every row without creating anything */
+  dryRun: boolean;
+  /** Whether an event already uses this slug */
+  slugExists: (slug: string) => Promise<boolean>;
+  /** Load the image named by a row's image URL or path */
+  resolveImage: (source: string) => Promise<File>;
+  /** Save a validated row */
+  createEvent: (
+    data: CreateEventInput,
+    image: File
+  ) => Promise<ActionResult<{ slug: string }>>;
+}
+
+/**
+ * Get Import Format
+ *
+ * @param filename - Uploaded or local file name
+ * @returns Format by extension, or null if unsupported
+ */
+export function getImportFormat(filename: string): ImportFormat | null {
+  const extension = filename.split(".").pop()?.toLowerCase();
+  return extension === "csv" || extension === "json" ? extension : null;
+}
+
+/**
+ * Utility: Split CSV text into rows of cells (RFC 4180)
+ * Quoted cells may contain commas, line breaks and doubled quotes
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("CSV has an unclosed quoted cell");
+  }
+
+  row.push(cell);
+  rows.push(row);
+
+  // Blank lines, including the one after a trailing newline, are not rows
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Parse Import File
+ * CSV needs a header row naming the fields; JSON is an array of events or
+ * an object with an events array
+ *
+ * @param text - File contents
+ * @param format - File format
+ * @returns Unvalidated rows
+ * @throws Error with a user-facing message when the file can't be read
+ */
+export function parseImportFile(text: string, format: ImportFormat): unknown[] {
+  // Spreadsheet exports often start with a byte order mark
+  const content = text.replace(/^\uFEFF/, "");
+  let rows: unknown[];
+
+  if (format === "csv") {
+    const [header, ...records] = parseCsv(content);
+
+    if (!header) {
+      throw new Error("CSV file is empty");
+    }
+
+    const fields = header.map((name) => name.trim());
+    rows = records.map((cells) =>
+      Object.fromEntries(fields.map((field, i) => [field, cells[i] ?? ""]))
+    );
+  } else {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error("File is not valid JSON");
+    }
+
+    const events = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { events?: unknown } | null)?.events;
+
+    if (!Array.isArray(events)) {
+      throw new Error('JSON must be an array of events or { "events": [...] }');
+    }
+
+    rows = events;
+  }
+
+  if (rows.length === 0) {
+    throw new Error("The file contains no events");
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import at most ${MAX_IMPORT_ROWS} events at a time`);
+  }
+
+  return rows;
+}
+
+/**
+ * Utility: Normalize a raw row for createEventSchema
+ * Trims strings, treats empty cells as missing and splits list cells
+ */
+function toEventFields(row: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(row).map(([field, value]) => {
+      if (typeof value !== "string") {
+        return [field, value];
+      }
+
+      const trimmed = value.trim();
+
+      // An empty list cell should fail as "at least one", not as missing
+      if (!trimmed) {
+        return [field, LIST_FIELDS.has(field) ? [] : undefined];
+      }
+
+      if (!LIST_FIELDS.has(field)) {
+        return [field, trimmed];
+      }
+
+      if (trimmed.startsWith("[")) {
+        try {
+          return [field, JSON.parse(trimmed)];
+        } catch {
+          // Not JSON after all, split it like any other cell
+        }
+      }
+
+      const items = trimmed.split(";").map((item) => item.trim());
+      return [field, items.filter(Boolean)];
+    })
+  );
+}
+
+/**
+ * Utility: Readable messages for Zod issues, prefixed with the field
+ */
+function formatIssues(issues: ZodIssue[]): string[] {
+  return issues.map((issue) =>
+    issue.path.length > 0
+      ? `${issue.path.join(".")}: ${issue.message}`
+      : issue.message
+  );
+}
+
+/**
+ * Utility: Check one row and, unless this is a dry run, create its event
+ */
+async function importRow(
+  raw: unknown,
+  row: number,
+  seenSlugs: Map<string, number>,
+  handlers: EventImportHandlers
+): Promise<EventImportRowDTO> {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return {
+      row,
+      title: null,
+      status: "invalid",
+      errors: ["Row must be an object"],
+    };
+  }
+
+  const { image, ...fields } = toEventFields(raw as Record<string, unknown>);
+  const title = typeof fields.title === "string" ? fields.title : null;
+  const validated = createEventSchema.safeParse(fields);
+  const errors = validated.success ? [] : formatIssues(validated.error.issues);
+
+  if (typeof image !== "string") {
+    errors.push("image: Image URL or path is required");
+  }
+
+  // Titles become slugs, so two titles with the same slug can't both be
+  // created
+  const slug = title ? getEventSlug(title) : null;
+  if (slug && seenSlugs.has(slug)) {
+    errors.push(`title: Same slug as row ${seenSlugs.get(slug)}`);
+  } else if (slug) {
+    seenSlugs.set(slug, row);
+  }
+
+  if (!validated.success || typeof image !== "string" || errors.length > 0) {
+    return { row, title, status: "invalid", errors };
+  }
+
+  // Checked before the image is loaded, and in dry runs too
+  if (slug && (await handlers.slugExists(slug))) {
+    return {
+      row,
+      title,
+      status: "invalid",
+      errors: ["title: An event with this title already exists"],
+    };
+  }
+
+  let file: File;
+  try {
+    file = await handlers.resolveImage(image);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { row, title, status: "invalid", errors: [`image: ${message}`] };
+  }
+
+  const fileValidation = imageFileSchema.safeParse(file);
+  if (!fileValidation.success) {
+    const message = fileValidation.error.issues[0].message;
+    return { row, title, status: "invalid", errors: [`image: ${message}`] };
+  }
+
+  if (handlers.dryRun) {
+    return { row, title, status: "valid", errors: [] };
+  }
+
+  let created: ActionResult<{ slug: string }>;
+  try {
+    created = await handlers.createEvent(validated.data, file);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { row, title, status: "failed", errors: [message] };
+  }
+
+  if (!created.ok) {
+    return {
+      row,
+      title,
+      status: "failed",
+      errors: created.issues ? formatIssues(created.issues) : [created.message],
+    };
+  }
+
+  return {
+    row,
+    title,
+    status: "created",
+    slug: created.data.slug,
+    errors: [],
+  };
+}
+
+/**
+ * Import Event Rows
+ * Rows are handled one at a time and independently: a bad row is reported
+ * and the rest still go through
+ *
+ * @param rows - Rows from parseImportFile
+ * @param handlers - Dry run flag, slug check, image lookup and event
+ *   creation
+ * @returns Per-row report with totals
+ */
+export async function importEventRows(
+  rows: unknown[],
+  handlers: EventImportHandlers
+): Promise<EventImportReportDTO> {
+  const seenSlugs = new Map<string, number>();
+  const results: EventImportRowDTO[] = [];
+
+  for (const [index, raw] of rows.entries()) {
+    results.push(await importRow(raw, index + 1, seenSlugs, handlers));
+  }
+
+  const succeeded = results.filter(
+    (result) => result.status === "valid" || result.status === "created"
+  ).length;
+
+  return {
+    dryRun: handlers.dryRun,
+    rows: results,
+    succeeded,
+    failed: results.length - succeeded,
+  };
+}
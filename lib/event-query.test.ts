@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Types } from "mongoose";
+import { getTodayDate } from "@/lib/event-dates";
+import {
+  buildCursorFilter,
+  buildEventFilter,
+  buildSort,
+  encodeCursor,
+} from "@/lib/event-query";
+
+const doc = {
+  _id: new Types.ObjectId("665f1c2b9a1e4b0012345678"),
+  date: "2030-05-01",
+  time: "09:30",
+  createdAt: new Date("2030-01-02T03:04:05.000Z"),
+};
+
+describe("buildSort", () => {
+  it("ends every sort with _id so the order is total", () => {
+    assert.deepEqual(buildSort("date-asc"), { date: 1, time: 1, _id: 1 });
+    assert.deepEqual(buildSort("newest"), { createdAt: -1, _id: -1 });
+  });
+});
+
+describe("cursors", () => {
+  it("select the events after the last one, field by field", () => {
+    const filter = buildCursorFilter(encodeCursor(doc, "date-asc"), "date-asc");
+
+    assert.deepEqual(filter, {
+      $or: [
+        { date: { $gt: "2030-05-01" } },
+        { date: "2030-05-01", time: { $gt: "09:30" } },
+        { date: "2030-05-01", time: "09:30", _id: { $gt: doc._id } },
+      ],
+    });
+  });
+
+  it("revive dates and compare downwards for descending sorts", () => {
+    const filter = buildCursorFilter(encodeCursor(doc, "newest"), "newest");
+
+    assert.deepEqual(filter, {
+      $or: [
+        { createdAt: { $lt: doc.createdAt } },
+        { createdAt: doc.createdAt, _id: { $lt: doc._id } },
+      ],
+    });
+  });
+
+  it("reject malformed cursors", () => {
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+
+    assert.equal(buildCursorFilter("not a cursor", "date-asc"), null);
+    assert.equal(buildCursorFilter(encode({}), "date-asc"), null);
+    assert.equal(buildCursorFilter(encode(["2030-05-01"]), "date-asc"), null);
+    assert.equal(
+      buildCursorFilter(encode(["2030-05-01", "09:30", "nope"]), "date-asc"),
+      null
+    );
+    assert.equal(
+      buildCursorFilter(encode(["yesterday", String(doc._id)]), "newest"),
+      null
+    );
+  });
+
+  it("reject a cursor from another sort", () => {
+    const cursor = encodeCursor(doc, "newest");
+
+    assert.equal(buildCursorFilter(cursor, "date-asc"), null);
+  });
+});
+
+describe("buildEventFilter", () => {
+  it("matches tags whole, case-insensitively and literally", () => {
+    assert.deepEqual(buildEventFilter({ tag: "C++" }).tags, {
+      $regex: "^C\\+\\+$",
+      $options: "i",
+    });
+  });
+
+  it("never lets an upcoming range start before today", () => {
+    const today = getTodayDate();
+
+    assert.deepEqual(
+      buildEventFilter({ when: "upcoming", from: "2000-01-01" }).date,
+      { $gte: today }
+    );
+    assert.deepEqual(buildEventFilter({ when: "past" }).date, { $lt: today });
+  });
+
+  it("is empty without filters", () => {
+    assert.deepEqual(buildEventFilter({}), {});
+  });
+});
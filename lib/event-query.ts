@@ -0,0 +1,174 @@
+/**
+ * Event Query Layer
+ * Shared filter, sort and cursor helpers for listing events
+ */
+
+import { Types, type FilterQuery, type SortOrder } from "mongoose";
+import type { IEvent } from "@/database";
+import { getTodayDate } from "@/lib/event-dates";
+import type { EventFilters, EventSort } from "@/lib/validation/events";
+
+/**
+ * Sort definitions
+ * Every sort ends with _id so the order is total and cursors are stable
+ */
+export const EVENT_SORTS: Record<
+  EventSort,
+  { field: "date" | "time" | "createdAt" | "_id"; order: 1 | -1 }[]
+> = {
+  "date-asc": [
+    { field: "date", order: 1 },
+    { field: "time", order: 1 },
+    { field: "_id", order: 1 },
+  ],
+  "date-desc": [
+    { field: "date", order: -1 },
+    { field: "time", order: -1 },
+    { field: "_id", order: -1 },
+  ],
+  newest: [
+    { field: "createdAt", order: -1 },
+    { field: "_id", order: -1 },
+  ],
+};
+
+/**
+ * Utility: Escape user input for use inside a RegExp
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Build Event Filter
+ * Translates validated list filters into a MongoDB filter
+ *
+ * @param filters - Validated filters
+ * @returns Filter for Event.find / Event.countDocuments
+ */
+export function buildEventFilter(filters: EventFilters): FilterQuery<IEvent> {
+  const query: FilterQuery<IEvent> = {};
+
+  if (filters.mode) {
+    query.mode = filters.mode;
+  }
+
+  if (filters.tag) {
+    // Tags are free text, so match them whole but case-insensitively
+    query.tags = {
+      $regex: `^${escapeRegex(filters.tag)}$`,
+      $options: "i",
+    };
+  }
+
+  if (filters.location) {
+    query.location = {
+      $regex: escapeRegex(filters.location),
+      $options: "i",
+    };
+  }
+
+  // Dates are stored as YYYY-MM-DD, so string comparison is chronological
+  const today = filters.when ? getTodayDate() : undefined;
+  const earliest =
+    filters.when === "upcoming" && (!filters.from || filters.from < today!)
+      ? today
+      : filters.from;
+
+  if (earliest || filters.to || filters.when === "past") {
+    query.date = {
+      ...(earliest && { $gte: earliest }),
+      ...(filters.to && { $lte: filters.to }),
+      ...(filters.when === "past" && { $lt: today }),
+    };
+  }
+
+  return query;
+}
+
+/**
+ * Build Sort
+ * Mongoose sort object for a sort key
+ */
+export function buildSort(sort: EventSort): Record<string, SortOrder> {
+  return Object.fromEntries(
+    EVENT_SORTS[sort].map(({ field, order }) => [field, order])
+  );
+}
+
+/**
+ * Encode Cursor
+ * Captures the sort values of the last event on a page
+ *
+ * @param doc - Last event returned
+ * @param sort - Sort key the page was read with
+ * @returns Opaque, URL-safe cursor
+ */
+export function encodeCursor(
+  doc: Pick<IEvent, "date" | "time" | "createdAt"> & { _id: unknown },
+  sort: EventSort
+): string {
+  const values = EVENT_SORTS[sort].map(({ field }) => {
+    const value = doc[field];
+    return value instanceof Date ? value.toISOString() : String(value);
+  });
+
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+/**
+ * Build Cursor Filter
+ * Keyset condition selecting the events that come after a cursor
+ *
+ * @param cursor - Cursor produced by encodeCursor
+ * @param sort - Sort key the cursor was created with
+ * @returns Filter, or null when the cursor is malformed
+ */
+export function buildCursorFilter(
+  cursor: string,
+  sort: EventSort
+): FilterQuery<IEvent> | null {
+  const fields = EVENT_SORTS[sort];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  if (
+    !Array.isArray(raw) ||
+    raw.length !== fields.length ||
+    !raw.every((value) => typeof value === "string")
+  ) {
+    return null;
+  }
+
+  // Revive values to the types stored in MongoDB
+  const values: unknown[] = [];
+  for (const [index, { field }] of fields.entries()) {
+    const value = raw[index] as string;
+
+    if (field === "_id") {
+      if (!Types.ObjectId.isValid(value)) return null;
+      values.push(new Types.ObjectId(value));
+    } else if (field === "createdAt") {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) return null;
+      values.push(date);
+    } else {
+      values.push(value);
+    }
+  }
+
+  // (a > x) OR (a = x AND b > y) OR (a = x AND b = y AND c > z) ...
+  return {
+    $or: fields.map(({ field, order }, index) => ({
+      ...Object.fromEntries(
+        fields.slice(0, index).map((prev, i) => [prev.field, values[i]])
+      ),
+      [field]: { [order === 1 ? "$gt" : "$lt"]: values[index] },
+    })),
+  };
+}
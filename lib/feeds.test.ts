@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildAtomFeed, buildRssFeed, type FeedEvent } from "@/lib/feeds";
+
+const event: FeedEvent = {
+  _id: "665f1c2b9a1e4b0012345678",
+  title: "Rust & <WebAssembly>",
+  slug: "rust-webassembly",
+  description: 'Build "fast" things',
+  image: "/images/event1.png",
+  venue: "Arena",
+  location: "Berlin",
+  date: "2030-05-01",
+  time: "09:30",
+  mode: "offline",
+  organizer: "Rustaceans",
+  tags: ["rust", "wasm"],
+  createdAt: "2030-01-02T03:04:05.000Z",
+  updatedAt: "2030-01-03T00:00:00.000Z",
+};
+
+const options = {
+  title: "DevEvent",
+  description: "New events",
+  path: "/events",
+  selfPath: "/events/feed.xml",
+};
+
+describe("buildRssFeed", () => {
+  it("escapes text and links each item to its event", () => {
+    const feed = buildRssFeed([event], options);
+
+    assert.ok(feed.includes("<title>Rust &amp; &lt;WebAssembly&gt;</title>"));
+    assert.ok(
+      feed.includes(
+        '<guid isPermaLink="true">http://localhost:3000/events/rust-webassembly</guid>'
+      )
+    );
+    assert.ok(
+      feed.includes("<description>Build &quot;fast&quot; things</description>")
+    );
+    assert.ok(!feed.includes("<WebAssembly>"));
+  });
+
+  it("resolves relative images and guesses their type", () => {
+    const feed = buildRssFeed([event], options);
+
+    assert.ok(
+      feed.includes(
+        '<enclosure url="http://localhost:3000/images/event1.png" length="0" type="image/png" />'
+      )
+    );
+  });
+
+  it("dates the feed by its newest event in RFC 822 format", () => {
+    const feed = buildRssFeed([event], options);
+
+    assert.ok(
+      feed.includes(
+        "<lastBuildDate>Wed, 02 Jan 2030 03:04:05 GMT</lastBuildDate>"
+      )
+    );
+    assert.ok(feed.includes("<category>wasm</category>"));
+  });
+});
+
+describe("buildAtomFeed", () => {
+  it("uses the latest update as the feed's updated time", () => {
+    const older = { ...event, updatedAt: "2029-12-31T00:00:00.000Z" };
+    const feed = buildAtomFeed([older, event], options);
+
+    assert.ok(
+      feed.includes("<updated>2030-01-03T00:00:00.000Z</updated>\n<entry>")
+    );
+  });
+
+  it("identifies the feed and entries by URL", () => {
+    const feed = buildAtomFeed([event], options);
+
+    assert.ok(feed.includes("<id>http://localhost:3000/events/feed.xml</id>"));
+    assert.ok(
+      feed.includes("<id>http://localhost:3000/events/rust-webassembly</id>")
+    );
+    assert.ok(feed.includes('<category term="rust" />'));
+    assert.ok(feed.includes("<author><name>Rustaceans</name></author>"));
+  });
+
+  it("escapes the HTML content once more for XML", () => {
+    const feed = buildAtomFeed([event], options);
+
+    assert.ok(
+      feed.includes(
+        '<content type="html">&lt;p&gt;&lt;strong&gt;When:&lt;/strong&gt; 2030-05-01 at 09:30&lt;/p&gt;'
+      )
+    );
+    assert.ok(
+      feed.includes("&lt;p&gt;Build &amp;quot;fast&amp;quot; things&lt;/p&gt;")
+    );
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Syndication Feeds
+ * Builds RSS 2.0 and Atom documents from events
+ */
+
+import type { EventDTO } from "@/lib/types/dtos";
+import { absoluteUrl } from "@/lib/site";
+
+/**
+ * Number of most recently published events in each feed
+ */
+export const FEED_ITEMS_LIMIT = 50;
+
+/**
+ * Feed metadata
+ * path: listing page the feed mirrors, selfPath: the feed's own URL
+ */
+export interface FeedOptions {
+  title: string;
+  description: string;
+  path: string;
+  selfPath: string;
+}
+
+/**
+ * Fields needed to describe an event in a feed
+ */
+export type FeedEvent = Pick<
+  EventDTO,
+  | "_id"
+  | "title"
+  | "slug"
+  | "description"
+  | "image"
+  | "venue"
+  | "location"
+  | "date"
+  | "time"
+  | "mode"
+  | "organizer"
+  | "tags"
+  | "createdAt"
+  | "updatedAt"
+>;
+
+/**
+ * Utility: Escape text for XML content and attributes
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Utility: Guess an image MIME type from its URL
+ */
+function getImageType(url: string): string {
+  const extension = new URL(url, absoluteUrl("/")).pathname
+    .split(".")
+    .pop()
+    ?.toLowerCase();
+
+  switch (extension) {
+    case "png":
+      return "image/png";
+    case "webp":
+      return "image/webp";
+    case "gif":
+      return "image/gif";
+    default:
+      return "image/jpeg";
+  }
+}
+
+/**
+ * Utility: HTML body of a feed entry with the practical details up front
+ */
+function buildContent(event: FeedEvent): string {
+  const where =
+    event.mode === "online"
+      ? event.location
+      : `${event.venue}, ${event.location}`;
+
+  const when = `${event.date} at ${event.time}`;
+
+  return [
+    `<p><strong>When:</strong> ${escapeXml(when)}</p>`,
+    `<p><strong>Where:</strong> ${escapeXml(`${where} (${event.mode})`)}</p>`,
+    `<p>${escapeXml(event.description)}</p>`,
+    `<p>Organized by ${escapeXml(event.organizer)}</p>`,
+  ].join("");
+}
+
+/**
+ * Build RSS Feed
+ *
+ * @param events - Events to include, newest first
+ * @param options - Feed title, description and URLs
+ * @returns RSS 2.0 document
+ */
+export function buildRssFeed(
+  events: FeedEvent[],
+  options: FeedOptions
+): string {
+  const lastBuild = events[0]?.createdAt ?? new Date().toISOString();
+
+  const selfUrl = escapeXml(absoluteUrl(options.selfPath));
+
+  const items = events.map((event) => {
+    const url = absoluteUrl(`/events/${event.slug}`);
+    const image = new URL(event.image, absoluteUrl("/")).toString();
+    const imageType = getImageType(image);
+
+    return [
+      "<item>",
+      `<title>${escapeXml(event.title)}</title>`,
+      `<link>${escapeXml(url)}</link>`,
+      `<guid isPermaLink="true">${escapeXml(url)}</guid>`,
+      `<pubDate>${new Date(event.createdAt).toUTCString()}</pubDate>`,
+      `<description>${escapeXml(event.description)}</description>`,
+      `<content:encoded>${escapeXml(buildContent(event))}</content:encoded>`,
+      ...event.tags.map((tag) => `<category>${escapeXml(tag)}</category>`),
+      // Image size is unknown, and RSS readers accept a zero length
+      `<enclosure url="${escapeXml(image)}" length="0" type="${imageType}" />`,
+      "</item>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">',
+    "<channel>",
+    `<title>${escapeXml(options.title)}</title>`,
+    `<link>${escapeXml(absoluteUrl(options.path))}</link>`,
+    `<description>${escapeXml(options.description)}</description>`,
+    `<atom:link href="${selfUrl}" rel="self" type="application/rss+xml" />`,
+    "<language>en</language>",
+    `<lastBuildDate>${new Date(lastBuild).toUTCString()}</lastBuildDate>`,
+    ...items,
+    "</channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Build Atom Feed
+ *
+ * @param events - Events to include, newest first
+ * @param options - Feed title, description and URLs
+ * @returns Atom 1.0 document
+ */
+export function buildAtomFeed(
+  events: FeedEvent[],
+  options: FeedOptions
+): string {
+  const updated = events.reduce(
+    (latest, event) => (event.updatedAt > latest ? event.updatedAt : latest),
+    events[0]?.updatedAt ?? new Date().toISOString()
+  );
+
+  const pageUrl = escapeXml(absoluteUrl(options.path));
+  const selfUrl = escapeXml(absoluteUrl(options.selfPath));
+
+  const entries = events.map((event) => {
+    const url = absoluteUrl(`/events/${event.slug}`);
+    const image = new URL(event.image, absoluteUrl("/")).toString();
+    const imageType = getImageType(image);
+
+    return [
+      "<entry>",
+      `<title>${escapeXml(event.title)}</title>`,
+      `<link rel="alternate" type="text/html" href="${escapeXml(url)}" />`,
+      `<link rel="enclosure" type="${imageType}" href="${escapeXml(image)}" />`,
+      `<id>${escapeXml(url)}</id>`,
+      `<published>${event.createdAt}</published>`,
+      `<updated>${event.updatedAt}</updated>`,
+      `<author><name>${escapeXml(event.organizer)}</name></author>`,
+      ...event.tags.map((tag) => `<category term="${escapeXml(tag)}" />`),
+      `<summary>${escapeXml(event.description)}</summary>`,
+      `<content type="html">${escapeXml(buildContent(event))}</content>`,
+      "</entry>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `<title>${escapeXml(options.title)}</title>`,
+    `<subtitle>${escapeXml(options.description)}</subtitle>`,
+    `<link rel="alternate" type="text/html" href="${pageUrl}" />`,
+    `<link rel="self" type="application/atom+xml" href="${selfUrl}" />`,
+    `<id>${selfUrl}</id>`,
+    `<updated>${updated}</updated>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildCalendar, type CalendarEvent } from "@/lib/ical";
+
+const event: CalendarEvent = {
+  _id: "665f1c2b9a1e4b0012345678",
+  title: "React Summit; Berlin, 2030",
+  slug: "react-summit-berlin-2030",
+  description: "Talks\nand workshops",
+  venue: "Arena",
+  location: "Berlin",
+  date: "2030-05-01",
+  time: "9:30",
+  mode: "offline",
+  organizer: "React Berlin, e.V.",
+  updatedAt: "2030-01-02T03:04:05.678Z",
+};
+
+/**
+ * Utility: Unfold content lines (RFC 5545 section 3.1)
+ */
+function unfold(calendar: string): string[] {
+  return calendar.replace(/\r\n /g, "").split("\r\n");
+}
+
+describe("buildCalendar", () => {
+  it("writes a CRLF-terminated calendar with one VEVENT per event", () => {
+    const calendar = buildCalendar([event, { ...event, _id: "other" }]);
+
+    assert.ok(calendar.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n"));
+    assert.ok(calendar.endsWith("END:VCALENDAR\r\n"));
+    assert.ok(!/[^\r]\n/.test(calendar));
+    assert.equal(calendar.match(/BEGIN:VEVENT/g)?.length, 2);
+  });
+
+  it("uses floating local start times and UTC timestamps", () => {
+    const lines = unfold(buildCalendar([event]));
+
+    assert.ok(lines.includes("DTSTART:20300501T093000"));
+    assert.ok(lines.includes("DTSTAMP:20300102T030405Z"));
+    assert.ok(lines.includes("DURATION:PT2H"));
+  });
+
+  it("derives a stable UID from the event ID", () => {
+    const lines = unfold(buildCalendar([event]));
+
+    assert.ok(lines.includes("UID:665f1c2b9a1e4b0012345678@localhost"));
+  });
+
+  it("escapes text values and quotes parameters", () => {
+    const lines = unfold(buildCalendar([event]));
+
+    assert.ok(lines.includes("SUMMARY:React Summit\\; Berlin\\, 2030"));
+    assert.ok(lines.includes("LOCATION:Arena\\, Berlin"));
+    assert.ok(
+      lines.some((line) =>
+        line.startsWith("DESCRIPTION:Talks\\nand workshops\\n\\nOrganized by")
+      )
+    );
+    assert.ok(
+      lines.some((line) =>
+        line.startsWith('ORGANIZER;CN="React Berlin, e.V.":http')
+      )
+    );
+  });
+
+  it("folds lines to 75 octets without splitting characters", () => {
+    const calendar = buildCalendar([
+      { ...event, title: "Ünïcödé ".repeat(20), description: "é".repeat(200) },
+    ]);
+
+    for (const line of calendar.split("\r\n")) {
+      assert.ok(Buffer.byteLength(line) <= 75, line);
+      assert.ok(!line.includes("�"));
+    }
+    assert.ok(unfold(calendar).includes(`SUMMARY:${"Ünïcödé ".repeat(20)}`));
+  });
+
+  it("adds the calendar name and refresh interval when given", () => {
+    const lines = unfold(
+      buildCalendar([], { name: "Upcoming, online", refreshInterval: "PT1H" })
+    );
+
+    assert.ok(lines.includes("X-WR-CALNAME:Upcoming\\, online"));
+    assert.ok(lines.includes("REFRESH-INTERVAL;VALUE=DURATION:PT1H"));
+    assert.ok(lines.includes("X-PUBLISHED-TTL:PT1H"));
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * iCalendar
+ * Builds RFC 5545 calendars from events
+ */
+
+import type { EventDTO } from "@/lib/types/dtos";
+import { absoluteUrl, SITE_URL } from "@/lib/site";
+
+/**
+ * Events don't store an end time, so calendar entries last this long
+ */
+const DEFAULT_EVENT_DURATION = "PT2H";
+
+/**
+ * Product identifier written into every calendar
+ */
+const PRODUCT_ID = "-//DevEvent//Events//EN";
+
+/**
+ * Fields needed to describe an event in a calendar
+ */
+export type CalendarEvent = Pick<
+  EventDTO,
+  | "_id"
+  | "title"
+  | "slug"
+  | "description"
+  | "venue"
+  | "location"
+  | "date"
+  | "time"
+  | "mode"
+  | "organizer"
+  | "updatedAt"
+>;
+
+/**
+ * Utility: Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Utility: Escape a parameter value such as CN, quoting it when needed
+ */
+function escapeParam(value: string): string {
+  const cleaned = value.replace(/"/g, "'").replace(/[\r\n]+/g, " ");
+  return /[;:,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+/**
+ * Utility: Fold a content line to 75 octets (RFC 5545 section 3.1)
+ * Continuation lines start with a space; multi-byte characters are never split
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+
+    current += char;
+    octets += size;
+  }
+
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * Utility: Format a Date as a UTC DATE-TIME, e.g. 20250101T093000Z
+ */
+function formatUtc(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Utility: Format stored date and time as a floating local DATE-TIME
+ * Event times have no time zone, so calendars show them as written
+ */
+function formatLocal(date: string, time: string): string {
+  const day = date.replace(/-/g, "");
+  const clock = time.padStart(5, "0").replace(":", "");
+  return `${day}T${clock}00`;
+}
+
+/**
+ * Build VEVENT
+ * UIDs derive from the event ID, so re-imports update instead of duplicating
+ *
+ * @param event - Event to describe
+ * @returns Unfolded content lines of the VEVENT component
+ */
+function buildVEvent(event: CalendarEvent): string[] {
+  const url = absoluteUrl(`/events/${event.slug}`);
+  const host = new URL(SITE_URL).hostname;
+  const location =
+    event.mode === "online"
+      ? event.location
+      : [event.venue, event.location].filter(Boolean).join(", ");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${event._id}@${host}`,
+    `DTSTAMP:${formatUtc(new Date(event.updatedAt))}`,
+    `LAST-MODIFIED:${formatUtc(new Date(event.updatedAt))}`,
+    `DTSTART:${formatLocal(event.date, event.time)}`,
+    `DURATION:${DEFAULT_EVENT_DURATION}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(
+      `${event.description}\n\nOrganized by ${event.organizer}\n${url}`
+    )}`,
+    `LOCATION:${escapeText(location)}`,
+    `ORGANIZER;CN=${escapeParam(event.organizer)}:${url}`,
+    `URL:${url}`,
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * Calendar options
+ * name: calendar name shown by calendar apps
+ * refreshInterval: how often subscribers should poll, as an RFC 5545 duration
+ */
+export interface CalendarOptions {
+  name?: string;
+  refreshInterval?: string;
+}
+
+/**
+ * Build Calendar
+ *
+ * @param events - Events to include
+ * @param options - Optional calendar name and refresh interval
+ * @returns iCalendar document with CRLF line endings
+ */
+export function buildCalendar(
+  events: CalendarEvent[],
+  { name, refreshInterval }: CalendarOptions = {}
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    // RFC 7986 property, plus the older name most clients still read
+    ...(refreshInterval
+      ? [
+          `REFRESH-INTERVAL;VALUE=DURATION:${refreshInterval}`,
+          `X-PUBLISHED-TTL:${refreshInterval}`,
+        ]
+      : []),
+    ...events.flatMap(buildVEvent),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
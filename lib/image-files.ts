@@ -0,0 +1,109 @@
+/**
+ * Image Files
+ * Turns remote and local images into File objects for the regular upload flow
+ */
+
+import { readFile, stat } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import { publicRequest, type PublicResponse } from "@/lib/public-http";
+
+/**
+ * Largest image accepted, matching imageFileSchema
+ */
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * How long an image download may take
+ */
+const IMAGE_FETCH_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * MIME types of local images, by extension
+ */
+const IMAGE_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+};
+
+/**
+ * Is Image URL
+ * Tells image URLs apart from local paths in imported data
+ *
+ * @param source - Image URL or path
+ * @returns true for http(s) URLs
+ */
+export function isImageUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+/**
+ * Fetch Image File
+ * Downloads an image so it can be validated and uploaded like a form upload
+ * Only public addresses are fetched, redirects are refused and the download
+ * stops as soon as it passes the size limit
+ *
+ * @param url - http(s) URL of the image
+ * @returns The image as a File
+ * @throws Error with a user-facing message when the image can't be used
+ */
+export async function fetchImageFile(url: string): Promise<File> {
+  let response: PublicResponse;
+  try {
+    response = await publicRequest(url, {
+      timeoutMs: IMAGE_FETCH_TIMEOUT_MS,
+      maxBytes: MAX_IMAGE_BYTES,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Image download failed: ${message}`);
+  }
+
+  if (response.status >= 300 && response.status < 400) {
+    throw new Error("Image URL redirects; use the address it redirects to");
+  }
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`Image download failed with status ${response.status}`);
+  }
+
+  const type = response.headers["content-type"]?.split(";")[0] ?? "";
+
+  if (!type.startsWith("image/")) {
+    throw new Error("Image URL does not point to an image");
+  }
+
+  const name = new URL(url).pathname.split("/").pop() || "image";
+  return new File([new Uint8Array(response.body)], name, { type });
+}
+
+/**
+ * Read Image File
+ * Loads a local image; only for trusted callers such as CLI scripts, as the
+ * path is not sandboxed
+ *
+ * @param path - Path to a JPEG, PNG or WebP file
+ * @returns The image as a File
+ * @throws Error with a user-facing message when the image can't be used
+ */
+export async function readImageFile(path: string): Promise<File> {
+  const type = IMAGE_TYPES[extname(path).toLowerCase()];
+
+  if (!type) {
+    throw new Error("Image must be a .jpg, .jpeg, .png or .webp file");
+  }
+
+  let size: number;
+  try {
+    size = (await stat(path)).size;
+  } catch {
+    throw new Error(`Image file not found: ${path}`);
+  }
+
+  if (size > MAX_IMAGE_BYTES) {
+    throw new Error("Image must be less than 5MB");
+  }
+
+  return new File([await readFile(path)], basename(path), { type });
+}
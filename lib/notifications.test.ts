@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatEmail } from "@/lib/notifications";
+
+const FROM = "DevEvent <events@example.com>";
+
+/**
+ * Utility: Split a message into its header lines and body
+ */
+function parse(message: string): { headers: string[]; body: string } {
+  const [head, ...body] = message.split("\n\n");
+  return { headers: head.split("\n"), body: body.join("\n\n") };
+}
+
+describe("formatEmail", () => {
+  it("writes a plain-text UTF-8 message", () => {
+    const { headers, body } = parse(
+      formatEmail(
+        { to: "ada@example.com", subject: "You're booked", text: "See you" },
+        FROM
+      )
+    );
+
+    assert.deepEqual(headers, [
+      `From: ${FROM}`,
+      "To: ada@example.com",
+      "Subject: You're booked",
+      "MIME-Version: 1.0",
+      "Content-Type: text/plain; charset=UTF-8",
+      "Content-Transfer-Encoding: 8bit",
+    ]);
+    assert.equal(body, "See you\n");
+  });
+
+  it("keeps line breaks in values out of the headers", () => {
+    const { headers } = parse(
+      formatEmail(
+        {
+          to: "ada@example.com\nBcc: eve@example.com",
+          subject: "Hi\r\nBcc: eve@example.com",
+          text: "",
+        },
+        FROM
+      )
+    );
+
+    assert.equal(headers.length, 6);
+    assert.ok(!headers.some((line) => line.startsWith("Bcc:")));
+  });
+
+  it("encodes non-ASCII subjects as RFC 2047 words", () => {
+    const subject = `Café ${"très ".repeat(20)}tôt`;
+    const { headers } = parse(
+      formatEmail({ to: "ada@example.com", subject, text: "" }, FROM)
+    );
+    const start = headers.findIndex((line) => line.startsWith("Subject:"));
+    const words = [headers[start].slice(9)];
+    for (let i = start + 1; headers[i].startsWith(" "); i++) {
+      words.push(headers[i].slice(1));
+    }
+
+    assert.ok(words.length > 1);
+    for (const word of words) {
+      assert.match(word, /^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/);
+      assert.ok(word.length <= 75);
+    }
+
+    const decoded = words
+      .map((word) => Buffer.from(word.slice(10, -2), "base64").toString())
+      .join("");
+    assert.equal(decoded, subject);
+  });
+
+  it("normalizes body line endings to LF", () => {
+    const { body } = parse(
+      formatEmail(
+        { to: "ada@example.com", subject: "Hi", text: "One\r\nTwo\rThree" },
+        FROM
+      )
+    );
+
+    assert.equal(body, "One\nTwo\nThree\n");
+  });
+});
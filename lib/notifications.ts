@@ -0,0 +1,269 @@
+/**
+ * Notifications
+ * Sends queued attendee emails and retries the ones that fail
+ *
+ * Mail goes out through a sendmail-compatible binary (sendmail, Postfix,
+ * msmtp...) at SENDMAIL_PATH, /usr/sbin/sendmail by default, from the
+ * address in MAIL_FROM.
+ *
+ * Not server-only so the notification worker script can use it; callers must
+ * be connected to MongoDB.
+ */
+
+import { spawn } from "node:child_process";
+import { Notification } from "@/database";
+
+/**
+ * Attempts before a notification is given up on
+ */
+export const MAX_SEND_ATTEMPTS = 5;
+
+/**
+ * Retry delays double from 1 minute up to 1 hour
+ */
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * How long sendmail gets to accept a message
+ */
+const SEND_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * How long a claimed notification is hidden from other workers
+ */
+const SEND_LEASE_MS = 2 * 60 * 1000;
+
+const DEFAULT_SENDMAIL_PATH = "/usr/sbin/sendmail";
+
+/**
+ * Longest UTF-8 run in one encoded header word, which stays within the
+ * 75 characters RFC 2047 allows once base64-encoded
+ */
+const ENCODED_WORD_BYTES = 45;
+
+/**
+ * Outcome of one send attempt
+ * pending notifications are retried at nextAttemptAt
+ */
+export type NotificationSendStatus = "sent" | "pending" | "failed";
+
+/**
+ * An email ready to format
+ */
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Utility: Read the sender address, failing loudly when it isn't configured
+ */
+function getSender(): string {
+  const from = process.env.MAIL_FROM;
+
+  if (!from) {
+    throw new Error("MAIL_FROM is not set");
+  }
+
+  return from;
+}
+
+/**
+ * Utility: Header value on one line, with non-ASCII text as RFC 2047
+ * encoded words
+ */
+function encodeHeader(value: string): string {
+  const line = value.replace(/[\r\n]+/g, " ").trim();
+
+  if (/^[\x20-\x7e]*$/.test(line)) {
+    return line;
+  }
+
+  // Split between characters so no word ends mid-sequence
+  const words: string[] = [];
+  let word = "";
+  for (const char of line) {
+    if (Buffer.byteLength(word + char) > ENCODED_WORD_BYTES) {
+      words.push(word);
+      word = "";
+    }
+    word += char;
+  }
+  words.push(word);
+
+  return words
+    .map((text) => `=?UTF-8?B?${Buffer.from(text).toString("base64")}?=`)
+    .join("\n ");
+}
+
+/**
+ * Format Email
+ * Builds a plain-text message for sendmail -t, which reads the recipient
+ * from the To header
+ *
+ * @param email - Recipient, subject and body
+ * @param from - Sender address, e.g. "DevEvent <events@example.com>"
+ * @returns The message with headers, using LF line endings
+ */
+export function formatEmail(email: OutgoingEmail, from: string): string {
+  const headers = [
+    `From: ${encodeHeader(from)}`,
+    `To: ${encodeHeader(email.to)}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+
+  const body = email.text.replace(/\r\n?/g, "\n");
+
+  return `${headers.join("\n")}\n\n${body}\n`;
+}
+
+/**
+ * Utility: Hand a formatted message to sendmail
+ * -i keeps a line holding a single dot from ending the message early
+ */
+function sendmail(message: string): Promise<void> {
+  const path = process.env.SENDMAIL_PATH || DEFAULT_SENDMAIL_PATH;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(path, ["-t", "-i"], {
+      stdio: ["pipe", "ignore", "pipe"],
+      timeout: SEND_TIMEOUT_MS,
+    });
+
+    let stderr = "";
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-500);
+    });
+
+    // A sendmail that exits early closes stdin; the exit code says why
+    child.stdin.on("error", () => {});
+
+    child.on("error", (error) =>
+      reject(new Error(`Could not run ${path}: ${error.message}`))
+    );
+    child.on("close", (code, signal) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        const reason = signal ? `was stopped (${signal})` : `exited ${code}`;
+        reject(new Error(`sendmail ${reason}: ${stderr.trim()}`.trim()));
+      }
+    });
+
+    child.stdin.end(message);
+  });
+}
+
+/**
+ * Utility: Milliseconds to wait before the next attempt
+ */
+function getSendRetryDelay(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    MAX_RETRY_DELAY_MS
+  );
+}
+
+/**
+ * Send Notification
+ * Makes one attempt if the notification is due, then records the outcome
+ * and schedules the next attempt with exponential backoff
+ *
+ * @param notificationId - Notification to send
+ * @returns New status, or null if it wasn't due or was claimed
+ * @throws Error when MAIL_FROM is not set
+ */
+export async function sendNotification(
+  notificationId: string
+): Promise<NotificationSendStatus | null> {
+  // Checked before claiming, so missing configuration doesn't use up attempts
+  const from = getSender();
+  const now = new Date();
+
+  // Claim the notification so concurrent workers don't send it twice
+  const notification = await Notification.findOneAndUpdate(
+    { _id: notificationId, sentAt: null, nextAttemptAt: { $lte: now } },
+    {
+      $inc: { attempts: 1 },
+      nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MS),
+    },
+    { new: true }
+  )
+    .lean()
+    .exec();
+
+  if (!notification) {
+    return null;
+  }
+
+  try {
+    await sendmail(
+      formatEmail(
+        {
+          to: notification.email,
+          subject: notification.subject,
+          text: notification.message,
+        },
+        from
+      )
+    );
+  } catch (error) {
+    const exhausted = notification.attempts >= MAX_SEND_ATTEMPTS;
+
+    await Notification.updateOne(
+      { _id: notification._id },
+      {
+        nextAttemptAt: exhausted
+          ? null
+          : new Date(Date.now() + getSendRetryDelay(notification.attempts)),
+        lastError: error instanceof Error ? error.message : String(error),
+      }
+    ).exec();
+
+    return exhausted ? "failed" : "pending";
+  }
+
+  await Notification.updateOne(
+    { _id: notification._id },
+    { sentAt: new Date(), nextAttemptAt: null, lastError: null }
+  ).exec();
+
+  return "sent";
+}
+
+/**
+ * Process Due Notifications
+ * Sends unsent notifications whose retry time has come, oldest first
+ *
+ * @param limit - Maximum number of notifications to attempt
+ * @returns Number of notifications attempted
+ * @throws Error when MAIL_FROM is not set
+ */
+export async function processDueNotifications(limit = 50): Promise<number> {
+  getSender();
+
+  const due = await Notification.find({
+    sentAt: null,
+    nextAttemptAt: { $lte: new Date() },
+  })
+    .sort({ nextAttemptAt: 1 })
+    .limit(limit)
+    .select("_id")
+    .lean()
+    .exec();
+
+  let attempted = 0;
+
+  for (const notification of due) {
+    if (await sendNotification(String(notification._id))) {
+      attempted++;
+    }
+  }
+
+  return attempted;
+}
@@ -0,0 +1,470 @@
+/**
+ * OpenAPI Specification
+ * Builds the OpenAPI 3.1 document for the public API from the Zod schemas
+ */
+
+import { z } from "zod";
+import type { ActionErrorCode } from "@/lib/types/actions";
+import type {
+  AttendeeListDTO,
+  EventDTO,
+  EventsListDTO,
+  WebhookDetailsDTO,
+  WebhookDTO,
+} from "@/lib/types/dtos";
+import { absoluteUrl } from "@/lib/site";
+import { attendeeExportFormatSchema } from "@/lib/validation/attendees";
+import {
+  createEventSchema,
+  eventModeSchema,
+  listEventsSchema,
+  objectIdSchema,
+  slugSchema,
+} from "@/lib/validation/events";
+import {
+  createWebhookSchema,
+  webhookEventTypeSchema,
+} from "@/lib/validation/webhooks";
+import { XLSX_CONTENT_TYPE } from "@/lib/xlsx";
+
+/**
+ * Event DTO Schema
+ * Mirrors EventDTO; `satisfies` fails the build if the two drift apart
+ */
+const eventDTOSchema = z.object({
+  _id: z.string(),
+  title: z.string(),
+  slug: z.string(),
+  description: z.string(),
+  overview: z.string(),
+  // Cloudinary URL, or a site-relative path for seeded events
+  image: z.string(),
+  venue: z.string(),
+  location: z.string(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  time: z.string().regex(/^\d{1,2}:\d{2}$/),
+  mode: eventModeSchema,
+  audience: z.string(),
+  agenda: z.array(z.string()),
+  organizer: z.string(),
+  tags: z.array(z.string()),
+  capacity: z.number().int().nullable(),
+  bookedSeats: z.number().int(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+}) satisfies z.ZodType<EventDTO>;
+
+/**
+ * Events List DTO Schema
+ */
+const eventsListDTOSchema = z.object({
+  events: z.array(eventDTOSchema),
+  total: z.number().int(),
+  nextCursor: z.string().nullable().optional(),
+}) satisfies z.ZodType<EventsListDTO>;
+
+/**
+ * Attendee List DTO Schema
+ */
+const attendeeListDTOSchema = z.object({
+  event: eventDTOSchema.pick({
+    _id: true,
+    title: true,
+    slug: true,
+    date: true,
+    time: true,
+  }),
+  attendees: z.array(
+    z.object({
+      bookingId: z.string(),
+      email: z.email(),
+      status: z.enum(["confirmed", "waitlisted"]),
+      waitlistPosition: z.number().int().nullable(),
+      createdAt: z.iso.datetime(),
+      updatedAt: z.iso.datetime(),
+    })
+  ),
+  confirmed: z.number().int(),
+  waitlisted: z.number().int(),
+}) satisfies z.ZodType<AttendeeListDTO>;
+
+/**
+ * Webhook DTO Schema
+ */
+const webhookDTOSchema = z.object({
+  _id: z.string(),
+  url: z.url(),
+  events: z.array(webhookEventTypeSchema),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+  secret: z.string().optional(),
+}) satisfies z.ZodType<WebhookDTO>;
+
+/**
+ * Webhook Details DTO Schema
+ */
+const webhookDetailsDTOSchema = z.object({
+  webhook: webhookDTOSchema,
+  deliveries: z.array(
+    z.object({
+      _id: z.string(),
+      type: webhookEventTypeSchema,
+      status: z.enum(["pending", "succeeded", "failed"]),
+      attempts: z.number().int(),
+      nextAttemptAt: z.iso.datetime().nullable(),
+      lastStatusCode: z.number().int().nullable(),
+      lastError: z.string().nullable(),
+      deliveredAt: z.iso.datetime().nullable(),
+      createdAt: z.iso.datetime(),
+    })
+  ),
+}) satisfies z.ZodType<WebhookDetailsDTO>;
+
+/**
+ * API Error Schema
+ * The failed ActionResult, as returned by apiError
+ */
+const apiErrorSchema = z.object({
+  error: z.object({
+    code: z.enum([
+      "VALIDATION_ERROR",
+      "NOT_FOUND",
+      "UNAUTHORIZED",
+      "CONFLICT",
+      "UNKNOWN",
+    ] satisfies ActionErrorCode[]),
+    message: z.string(),
+    issues: z
+      .array(
+        z.object({
+          code: z.string(),
+          path: z.array(z.union([z.string(), z.number()])),
+          message: z.string(),
+        })
+      )
+      .optional(),
+  }),
+});
+
+/**
+ * Create Event Request Schema
+ * createEventSchema plus the image, which the API takes as a URL
+ */
+const createEventRequestSchema = createEventSchema.extend({
+  imageUrl: z.url(),
+});
+
+/**
+ * Component schemas, referenced by name from the paths
+ */
+const components = z.registry<{ id: string }>();
+components.add(eventDTOSchema, { id: "Event" });
+components.add(eventsListDTOSchema, { id: "EventsList" });
+components.add(createEventRequestSchema, { id: "CreateEventRequest" });
+components.add(attendeeListDTOSchema, { id: "AttendeeList" });
+components.add(webhookDTOSchema, { id: "Webhook" });
+components.add(webhookDetailsDTOSchema, { id: "WebhookDetails" });
+components.add(createWebhookSchema, { id: "CreateWebhookRequest" });
+components.add(apiErrorSchema, { id: "Error" });
+
+/**
+ * Utility: Reference a component schema
+ */
+function ref(id: string) {
+  return { $ref: `#/components/schemas/${id}` };
+}
+
+/**
+ * Utility: JSON response referencing a component schema
+ */
+function jsonResponse(description: string, id: string) {
+  return {
+    description,
+    content: { "application/json": { schema: ref(id) } },
+  };
+}
+
+/**
+ * Utility: JSON Schema for request input, without the $schema header
+ * OpenAPI 3.1 schemas are JSON Schema 2020-12, the dialect Zod emits
+ */
+function toInputSchema(schema: z.ZodType) {
+  const jsonSchema = z.toJSONSchema(schema, { io: "input" });
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+/**
+ * Utility: Query parameters from the properties of an object schema
+ */
+function toQueryParameters(schema: z.ZodType) {
+  const { properties = {}, required = [] } = toInputSchema(schema);
+
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: "query",
+    required: required.includes(name),
+    schema: property,
+  }));
+}
+
+/**
+ * Conditional request headers and the headers every read returns
+ */
+const cacheParameters = [
+  { name: "If-None-Match", in: "header", schema: { type: "string" } },
+  { name: "If-Modified-Since", in: "header", schema: { type: "string" } },
+];
+
+const cacheHeaders = {
+  ETag: { schema: { type: "string" } },
+  "Last-Modified": { schema: { type: "string" } },
+};
+
+/**
+ * Path parameter naming a webhook
+ */
+const webhookIdParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: toInputSchema(objectIdSchema),
+};
+
+/**
+ * Build OpenAPI Document
+ *
+ * @returns OpenAPI 3.1 document, ready for JSON.stringify
+ */
+export function buildOpenApiDocument() {
+  const { schemas } = z.toJSONSchema(components, {
+    io: "input",
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+
+  // Component schemas must not carry their own $schema or $id
+  for (const schema of Object.values(schemas)) {
+    delete schema.$schema;
+    delete schema.$id;
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "DevEvent API",
+      version: "1.0.0",
+      description:
+        "Access to DevEvent events. Reads are public; creating events, exporting attendees and managing webhooks need an organizer API key. Error responses carry the same codes as the app's server actions.",
+    },
+    servers: [{ url: absoluteUrl("/api") }],
+    paths: {
+      "/events": {
+        get: {
+          operationId: "listEvents",
+          summary: "List events",
+          description:
+            "Filtered, cursor-paginated events. Pass nextCursor back as cursor for the next page.",
+          parameters: [
+            ...toQueryParameters(listEventsSchema),
+            ...cacheParameters,
+          ],
+          responses: {
+            200: {
+              ...jsonResponse("A page of events", "EventsList"),
+              headers: cacheHeaders,
+            },
+            304: { description: "The cached copy is still current" },
+            400: jsonResponse("Invalid filters or cursor", "Error"),
+            500: jsonResponse("Unexpected error", "Error"),
+          },
+        },
+        post: {
+          operationId: "createEvent",
+          summary: "Create an event",
+          description:
+            "Needs an API key with the events:write scope. Multipart requests take the same fields as JSON, with agenda and tags as JSON-encoded arrays and either an image file or an imageUrl.",
+          security: [{ apiKey: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": { schema: ref("CreateEventRequest") },
+              "multipart/form-data": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    image: { type: "string", contentMediaType: "image/*" },
+                    imageUrl: { type: "string", format: "uri" },
+                  },
+                  additionalProperties: { type: "string" },
+                },
+              },
+            },
+          },
+          responses: {
+            201: jsonResponse("The created event", "Event"),
+            400: jsonResponse("Invalid event data or image", "Error"),
+            401: jsonResponse("Missing, revoked or under-scoped key", "Error"),
+            409: jsonResponse("An event with this title exists", "Error"),
+            500: jsonResponse("Unexpected error", "Error"),
+          },
+        },
+      },
+      "/events/{slug}": {
+        get: {
+          operationId: "getEvent",
+          summary: "Get an event",
+          parameters: [
+            {
+              name: "slug",
+              in: "path",
+              required: true,
+              schema: toInputSchema(slugSchema),
+            },
+            ...cacheParameters,
+          ],
+          responses: {
+            200: {
+              ...jsonResponse("The event", "Event"),
+              headers: cacheHeaders,
+            },
+            304: { description: "The cached copy is still current" },
+            400: jsonResponse("Invalid slug", "Error"),
+            404: jsonResponse("No event with this slug", "Error"),
+            500: jsonResponse("Unexpected error", "Error"),
+          },
+        },
+      },
+      "/events/{slug}/attendees": {
+        get: {
+          operationId: "exportAttendees",
+          summary: "Export an event's attendees",
+          description:
+            "Needs an API key with the attendees:read scope whose owner also owns the event. CSV and XLSX are sent as attachments with the same columns.",
+          security: [{ apiKey: [] }],
+          parameters: [
+            {
+              name: "slug",
+              in: "path",
+              required: true,
+              schema: toInputSchema(slugSchema),
+            },
+            {
+              name: "format",
+              in: "query",
+              required: false,
+              schema: toInputSchema(attendeeExportFormatSchema.default("json")),
+            },
+          ],
+          responses: {
+            200: {
+              description: "The attendees, oldest booking first",
+              content: {
+                "application/json": { schema: ref("AttendeeList") },
+                "text/csv": { schema: { type: "string" } },
+                [XLSX_CONTENT_TYPE]: {
+                  schema: {
+                    type: "string",
+                    contentMediaType: XLSX_CONTENT_TYPE,
+                  },
+                },
+              },
+            },
+            400: jsonResponse("Invalid slug or format", "Error"),
+            401: jsonResponse(
+              "Missing key, wrong scope or not the owner",
+              "Error"
+            ),
+            404: jsonResponse("No event with this slug", "Error"),
+            500: jsonResponse("Unexpected error", "Error"),
+          },
+        },
+      },
+      "/webhooks": {
+        get: {
+          operationId: "listWebhooks",
+          summary: "List webhooks",
+          description: "Webhooks owned by the API key's organizer.",
+          security: [{ apiKey: [] }],
+          responses: {
+            200: {
+              description: "The owner's webhooks",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      webhooks: { type: "array", items: ref("Webhook") },
+                    },
+                    required: ["webhooks"],
+                  },
+                },
+              },
+            },
+            401: jsonResponse("Missing, revoked or under-scoped key", "Error"),
+            500: jsonResponse("Unexpected error", "Error"),
+          },
+        },
+        post: {
+          operationId: "createWebhook",
+          summary: "Register a webhook",
+          description:
+            "Needs the webhooks:manage scope. Deliveries are POSTed as JSON and signed: X-DevEvent-Signature is sha256= followed by the hex HMAC-SHA256 of `<X-DevEvent-Timestamp>.<body>` keyed with the secret returned here, which is not shown again. Failed deliveries are retried with exponential backoff. booking.* events are only sent for events you own.",
+          security: [{ apiKey: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": { schema: ref("CreateWebhookRequest") },
+            },
+          },
+          responses: {
+            201: jsonResponse("The webhook, with its secret", "Webhook"),
+            400: jsonResponse("Invalid URL or event types", "Error"),
+            401: jsonResponse("Missing, revoked or under-scoped key", "Error"),
+            500: jsonResponse("Unexpected error", "Error"),
+          },
+        },
+      },
+      "/webhooks/{id}": {
+        get: {
+          operationId: "getWebhook",
+          summary: "Get a webhook and its delivery log",
+          security: [{ apiKey: [] }],
+          parameters: [webhookIdParameter],
+          responses: {
+            200: jsonResponse(
+              "The webhook and recent deliveries",
+              "WebhookDetails"
+            ),
+            400: jsonResponse("Invalid webhook ID", "Error"),
+            401: jsonResponse("Missing, revoked or under-scoped key", "Error"),
+            404: jsonResponse("No webhook with this ID", "Error"),
+            500: jsonResponse("Unexpected error", "Error"),
+          },
+        },
+        delete: {
+          operationId: "deleteWebhook",
+          summary: "Delete a webhook",
+          security: [{ apiKey: [] }],
+          parameters: [webhookIdParameter],
+          responses: {
+            204: { description: "The webhook was deleted" },
+            400: jsonResponse("Invalid webhook ID", "Error"),
+            401: jsonResponse("Missing, revoked or under-scoped key", "Error"),
+            404: jsonResponse("No webhook with this ID", "Error"),
+            500: jsonResponse("Unexpected error", "Error"),
+          },
+        },
+      },
+    },
+    components: {
+      schemas,
+      securitySchemes: {
+        apiKey: {
+          type: "http",
+          scheme: "bearer",
+          description: "Organizer API key, issued with `npm run api-keys`",
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Organizer Session
+ * Organizers sign in on the site with an events:write API key, which is
+ * kept in an HTTP-only cookie and checked again on every request, so
+ * revoking the key also ends the session
+ */
+
+import "server-only";
+import { cookies } from "next/headers";
+import { cache } from "react";
+import connectDB from "@/database/mongodb";
+import { Event } from "@/database";
+import { verifyApiKey } from "@/lib/api-auth";
+import type { ApiKeyIdentity } from "@/lib/api-keys";
+
+/**
+ * Cookie holding the signed-in organizer's API key
+ */
+export const ORGANIZER_COOKIE = "devevent_organizer";
+
+/**
+ * How long a sign-in lasts
+ */
+export const ORGANIZER_SESSION_MAX_AGE = 30 * 24 * 60 * 60;
+
+/**
+ * Get Organizer
+ * Cached per request, since pages check it in several places
+ *
+ * @returns The signed-in organizer, or null if nobody is signed in or the
+ *   key was revoked
+ */
+export const getOrganizer = cache(async (): Promise<ApiKeyIdentity | null> => {
+  const key = (await cookies()).get(ORGANIZER_COOKIE)?.value;
+
+  if (!key) {
+    return null;
+  }
+
+  const auth = await verifyApiKey(key, "events:write");
+  return auth.ok ? auth.data : null;
+});
+
+/**
+ * Is Event Owner
+ *
+ * @param organizer - Signed-in organizer, if any
+ * @param owner - Owner email stored on the event
+ * @returns true if the organizer owns the event; events without an owner
+ *   belong to nobody
+ */
+export function isEventOwner(
+  organizer: ApiKeyIdentity | null,
+  owner: string | null | undefined
+): boolean {
+  return (
+    organizer !== null && !!owner && owner === organizer.owner.toLowerCase()
+  );
+}
+
+/**
+ * Can Manage Event
+ * For pages deciding whether to show the owner's links and forms; event
+ * DTOs leave the owner out because it is an email address
+ *
+ * @param eventId - Event to check
+ * @returns true if the signed-in organizer owns the event
+ */
+export const canManageEvent = cache(
+  async (eventId: string): Promise<boolean> => {
+    const organizer = await getOrganizer();
+
+    if (!organizer) {
+      return false;
+    }
+
+    await connectDB();
+
+    const event = await Event.findById(eventId).select("owner").lean().exec();
+    return isEventOwner(organizer, event?.owner);
+  }
+);
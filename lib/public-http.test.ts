@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  assertPublicUrl,
+  isPublicAddress,
+  publicRequest,
+} from "@/lib/public-http";
+
+describe("isPublicAddress", () => {
+  it("accepts public IPv4 and IPv6 addresses", () => {
+    for (const address of ["8.8.8.8", "1.1.1.1", "2606:4700:4700::1111"]) {
+      assert.ok(isPublicAddress(address), address);
+    }
+  });
+
+  it("rejects private, loopback, link-local and reserved addresses", () => {
+    for (const address of [
+      "10.1.2.3",
+      "127.0.0.1",
+      "169.254.169.254",
+      "172.16.0.1",
+      "192.168.1.1",
+      "100.64.0.1",
+      "0.0.0.0",
+      "255.255.255.255",
+      "::1",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+      "::ffff:10.0.0.1",
+    ]) {
+      assert.ok(!isPublicAddress(address), address);
+    }
+  });
+
+  it("rejects anything that isn't an IP address", () => {
+    assert.ok(!isPublicAddress("example.com"));
+    assert.ok(!isPublicAddress(""));
+  });
+});
+
+describe("assertPublicUrl", () => {
+  it("rejects private IP literals and other protocols without a lookup", async () => {
+    await assert.rejects(
+      assertPublicUrl("http://169.254.169.254/latest/meta-data"),
+      /private address/
+    );
+    await assert.rejects(assertPublicUrl("http://[::1]:3000/"), /private/);
+    await assert.rejects(assertPublicUrl("ftp://8.8.8.8/"), /http or https/);
+    await assert.rejects(
+      assertPublicUrl("http://8.8.8.8/", { protocols: ["https:"] }),
+      /must use https/
+    );
+    await assert.rejects(assertPublicUrl("not a url"), /not valid/);
+  });
+
+  it("rejects hostnames that resolve to private addresses", async () => {
+    await assert.rejects(assertPublicUrl("http://localhost/"), /public/);
+  });
+});
+
+describe("allowLoopback", () => {
+  it("allows loopback targets but still no other private ones", async () => {
+    const options = { allowLoopback: true };
+
+    await assertPublicUrl("http://127.0.0.1:4000/", options);
+    await assertPublicUrl("http://[::1]:4000/", options);
+    await assertPublicUrl("http://localhost:4000/", options);
+    await assert.rejects(
+      assertPublicUrl("http://192.168.1.1/", options),
+      /private address/
+    );
+    await assert.rejects(
+      assertPublicUrl("http://169.254.169.254/", options),
+      /private address/
+    );
+  });
+});
+
+describe("publicRequest", () => {
+  it("never connects to a private address", async () => {
+    await assert.rejects(
+      publicRequest("http://127.0.0.1:1/", { timeoutMs: 1000 }),
+      /private address/
+    );
+    await assert.rejects(
+      publicRequest("http://localhost:1/", { timeoutMs: 1000 }),
+      /public address/
+    );
+  });
+});
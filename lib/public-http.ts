@@ -0,0 +1,298 @@
+/**
+ * Public HTTP
+ * Requests to URLs supplied by users, such as image downloads and webhook
+ * deliveries. Only public addresses can be reached, so these URLs can't be
+ * used to probe the server's own network or cloud metadata endpoints
+ *
+ * Addresses are checked while connecting, after DNS resolution, so a
+ * hostname can't pass a check and then resolve somewhere else. Redirects are
+ * never followed. Callers may opt in to loopback addresses for local
+ * development. Not server-only so the import script can use it too.
+ */
+
+import { lookup, type LookupAddress } from "node:dns";
+import http, { type IncomingHttpHeaders } from "node:http";
+import https from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+
+/**
+ * Ranges that are not reachable on the public internet: private networks,
+ * loopback, link-local (including 169.254.169.254), carrier-grade NAT,
+ * documentation, benchmarking, multicast and reserved addresses
+ * IPv4-mapped IPv6 addresses are matched against the IPv4 ranges
+ */
+const NON_PUBLIC_RANGES = new BlockList();
+
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, "ipv4");
+}
+
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Loopback ranges, reachable only when a caller opts in with allowLoopback
+ */
+const LOOPBACK_RANGES = new BlockList();
+LOOPBACK_RANGES.addSubnet("127.0.0.0", 8, "ipv4");
+LOOPBACK_RANGES.addAddress("::1", "ipv6");
+
+/**
+ * Which URLs may be reached
+ */
+export interface PublicUrlOptions {
+  /** Allowed URL protocols, http: and https: by default */
+  protocols?: ("http:" | "https:")[];
+  /** Also allow loopback addresses, for local development only */
+  allowLoopback?: boolean;
+}
+
+/**
+ * Request options for publicRequest
+ */
+export interface PublicRequestOptions extends PublicUrlOptions {
+  method?: "GET" | "POST";
+  headers?: Record<string, string>;
+  body?: string;
+  /** The whole request, body included, is aborted after this long */
+  timeoutMs: number;
+  /** Largest body read; without it the body is discarded */
+  maxBytes?: number;
+}
+
+/**
+ * Response of publicRequest; redirects are returned, not followed
+ */
+export interface PublicResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+/**
+ * Is Public Address
+ *
+ * @param address - IPv4 or IPv6 address
+ * @returns true if the address is reachable on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+
+  if (family === 0) {
+    return false;
+  }
+
+  return !NON_PUBLIC_RANGES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Utility: Is the address public, or loopback when that is allowed
+ */
+function isAllowedAddress(address: string, allowLoopback = false): boolean {
+  const family = isIP(address);
+
+  return (
+    isPublicAddress(address) ||
+    (allowLoopback &&
+      family !== 0 &&
+      LOOPBACK_RANGES.check(address, family === 6 ? "ipv6" : "ipv4"))
+  );
+}
+
+/**
+ * Utility: DNS lookup that fails when a hostname resolves to any address
+ * that isn't allowed
+ */
+const createLookup =
+  (allowLoopback = false): LookupFunction =>
+  (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, "");
+        return;
+      }
+
+      const resolved = addresses as LookupAddress[];
+
+      if (
+        resolved.length === 0 ||
+        resolved.some(
+          ({ address }) => !isAllowedAddress(address, allowLoopback)
+        )
+      ) {
+        callback(
+          new Error(`${hostname} does not resolve to a public address`),
+          ""
+        );
+        return;
+      }
+
+      if (options.all) {
+        callback(null, resolved);
+      } else {
+        callback(null, resolved[0].address, resolved[0].family);
+      }
+    });
+  };
+
+/**
+ * Utility: Parse a URL and check its protocol and, for IP literals, its
+ * address; hostnames are checked when they are resolved
+ */
+function parsePublicUrl(
+  url: string,
+  { protocols = ["http:", "https:"], allowLoopback }: PublicUrlOptions = {}
+): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("URL is not valid");
+  }
+
+  if (!(protocols as readonly string[]).includes(parsed.protocol)) {
+    const names = protocols.map((protocol) => protocol.slice(0, -1));
+    throw new Error(`URL must use ${names.join(" or ")}`);
+  }
+
+  // Connecting to an IP literal skips DNS, so check it here
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && !isAllowedAddress(host, allowLoopback)) {
+    throw new Error("URL must not point to a private address");
+  }
+
+  return parsed;
+}
+
+/**
+ * Assert Public URL
+ * For checking a URL when it is saved; requests check it again when sent
+ *
+ * @param url - URL to check
+ * @param options - Allowed protocols and whether loopback is allowed
+ * @throws Error with a user-facing message when the URL is not public
+ */
+export async function assertPublicUrl(
+  url: string,
+  options: PublicUrlOptions = {}
+): Promise<void> {
+  const { hostname } = parsePublicUrl(url, options);
+
+  await new Promise<void>((resolve, reject) => {
+    createLookup(options.allowLoopback)(
+      hostname.replace(/^\[|\]$/g, ""),
+      {},
+      (error) => (error ? reject(error) : resolve())
+    );
+  });
+}
+
+/**
+ * Public Request
+ * Makes one request to a public address
+ *
+ * @param url - Request URL
+ * @param options - Method, headers, body, protocols, timeout and size limit
+ * @returns Status, headers and body (empty unless maxBytes is given)
+ * @throws Error with a user-facing message when the URL is not public, the
+ *   request fails or times out, or the body is larger than maxBytes
+ */
+export async function publicRequest(
+  url: string,
+  options: PublicRequestOptions
+): Promise<PublicResponse> {
+  const parsed = parsePublicUrl(url, options);
+  const client = parsed.protocol === "https:" ? https : http;
+  const signal = AbortSignal.timeout(options.timeoutMs);
+  const maxBytes = options.maxBytes ?? 0;
+
+  return new Promise((resolve, reject) => {
+    const fail = (error: Error) =>
+      reject(
+        signal.aborted
+          ? new Error(`Request timed out after ${options.timeoutMs / 1000}s`)
+          : error
+      );
+
+    const request = client.request(
+      parsed,
+      {
+        method: options.method ?? "GET",
+        headers: options.headers,
+        lookup: createLookup(options.allowLoopback),
+        signal,
+      },
+      (response) => {
+        const done = (body: Buffer) =>
+          resolve({
+            status: response.statusCode ?? 0,
+            headers: response.headers,
+            body,
+          });
+
+        if (maxBytes === 0) {
+          response.destroy();
+          done(Buffer.alloc(0));
+          return;
+        }
+
+        // Don't trust Content-Length; count what actually arrives
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const limit =
+          maxBytes >= 1024 * 1024
+            ? `${+(maxBytes / 1024 / 1024).toFixed(1)} MB`
+            : `${Math.ceil(maxBytes / 1024)} KB`;
+        const tooLarge = new Error(`Response is larger than ${limit}`);
+
+        if (Number(response.headers["content-length"]) > maxBytes) {
+          fail(tooLarge);
+          request.destroy();
+          return;
+        }
+
+        response.on("data", (chunk: Buffer) => {
+          size += chunk.length;
+
+          if (size > maxBytes) {
+            fail(tooLarge);
+            request.destroy();
+            return;
+          }
+
+          chunks.push(chunk);
+        });
+        response.on("end", () => done(Buffer.concat(chunks)));
+        response.on("error", fail);
+      }
+    );
+
+    request.on("error", fail);
+    request.end(options.body);
+  });
+}
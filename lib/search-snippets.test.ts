@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildSnippet, getSearchTerms } from "@/lib/search-snippets";
+
+describe("getSearchTerms", () => {
+  it("drops negated terms, quotes and duplicates and trims suffixes", () => {
+    assert.deepEqual(getSearchTerms('"React Conferences" -vue react meetups'), [
+      "react",
+      "conferenc",
+      "meetup",
+    ]);
+  });
+
+  it("keeps short words whole and drops single characters", () => {
+    assert.deepEqual(getSearchTerms("AI is a go"), ["ai", "is", "go"]);
+  });
+});
+
+describe("buildSnippet", () => {
+  it("marks every word starting with a term", () => {
+    assert.deepEqual(buildSnippet("Reactive talks about React", ["react"]), [
+      { text: "Reactive", highlight: true },
+      { text: " talks about ", highlight: false },
+      { text: "React", highlight: true },
+    ]);
+  });
+
+  it("cuts long text around the first match on word boundaries", () => {
+    const text = `${"lorem ".repeat(40)}kubernetes ${"ipsum ".repeat(40)}`;
+    const segments = buildSnippet(text, ["kubernetes"], 60);
+
+    assert.ok(segments);
+    assert.deepEqual(segments[0], { text: "…", highlight: false });
+    assert.deepEqual(segments.at(-1), { text: "…", highlight: false });
+    assert.ok(segments.some((s) => s.highlight && s.text === "kubernetes"));
+
+    const excerpt = segments
+      .slice(1, -1)
+      .map((s) => s.text)
+      .join("");
+    assert.ok(excerpt.length <= 60);
+    assert.match(excerpt, /^\w.*\w$/);
+  });
+
+  it("treats terms literally", () => {
+    assert.equal(buildSnippet("nothing here", [".*"]), null);
+  });
+
+  it("returns null without terms or matches", () => {
+    assert.equal(buildSnippet("Some text", []), null);
+    assert.equal(buildSnippet("Some text", ["graphql"]), null);
+  });
+});
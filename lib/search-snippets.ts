@@ -0,0 +1,109 @@
+/**
+ * Search Snippets
+ * Builds short, highlighted excerpts for full-text search results
+ */
+
+import type { SnippetSegmentDTO } from "@/lib/types/dtos";
+
+/**
+ * Utility: Escape user input for use inside a RegExp
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Get Search Terms
+ * Splits a query the way MongoDB does, dropping negated terms
+ * Common English suffixes are trimmed so "conferences" highlights "conference"
+ *
+ * @param query - Raw search query
+ * @returns Lowercase term stems to highlight
+ */
+export function getSearchTerms(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .replace(/"/g, " ")
+    .split(/\s+/)
+    .filter((term) => term && !term.startsWith("-"))
+    .map((term) => term.replace(/[^\w-]/g, ""))
+    .map((term) =>
+      term.length > 4 ? term.replace(/(?:ing|ed|es|s)$/, "") : term
+    )
+    .filter((term) => term.length > 1);
+
+  return [...new Set(terms)];
+}
+
+/**
+ * Build Snippet
+ * Cuts a window of text around the first matching term and marks every match
+ *
+ * @param text - Field text to excerpt
+ * @param terms - Terms from getSearchTerms
+ * @param maxLength - Approximate snippet length in characters
+ * @returns Snippet segments, or null if no term occurs in the text
+ */
+export function buildSnippet(
+  text: string,
+  terms: string[],
+  maxLength = 160
+): SnippetSegmentDTO[] | null {
+  if (terms.length === 0) {
+    return null;
+  }
+
+  // Match whole words that start with a term
+  const pattern = new RegExp(
+    `\\b(?:${terms.map(escapeRegex).join("|")})\\w*`,
+    "gi"
+  );
+
+  const firstMatch = pattern.exec(text);
+  if (!firstMatch) {
+    return null;
+  }
+
+  // Centre the window on the first match, then snap to word boundaries
+  let start = Math.max(0, firstMatch.index - Math.floor(maxLength / 3));
+  let end = Math.min(text.length, start + maxLength);
+
+  if (start > 0) {
+    start = text.indexOf(" ", start) + 1 || start;
+  }
+  if (end < text.length) {
+    end = text.lastIndexOf(" ", end) > start ? text.lastIndexOf(" ", end) : end;
+  }
+
+  const excerpt = text.slice(start, end);
+  const segments: SnippetSegmentDTO[] = [];
+
+  if (start > 0) {
+    segments.push({ text: "…", highlight: false });
+  }
+
+  // matchAll starts where exec left off, so rewind to mark every match
+  pattern.lastIndex = 0;
+
+  let lastIndex = 0;
+  for (const match of excerpt.matchAll(pattern)) {
+    if (match.index > lastIndex) {
+      segments.push({
+        text: excerpt.slice(lastIndex, match.index),
+        highlight: false,
+      });
+    }
+    segments.push({ text: match[0], highlight: true });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < excerpt.length) {
+    segments.push({ text: excerpt.slice(lastIndex), highlight: false });
+  }
+
+  if (end < text.length) {
+    segments.push({ text: "…", highlight: false });
+  }
+
+  return segments;
+}
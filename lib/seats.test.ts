@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { Types } from "mongoose";
+import { Booking, Event, Notification } from "@/database";
+import { verifyCancellationToken } from "@/lib/booking-tokens";
+import { fillSeatsFromWaitlist, handOverSeat } from "@/lib/seats";
+
+const EVENT_ID = "665f1c2b9a1e4b0012345678";
+const EVENT = { title: "Node Summit", date: "2099-06-01", time: "18:00" };
+
+/**
+ * Utility: Query stand-in whose chain resolves to the given value
+ */
+function query<T>(value: T) {
+  const chain = {
+    select: () => chain,
+    lean: () => chain,
+    exec: async () => value,
+  };
+  return chain;
+}
+
+interface QueuedNotification {
+  filter: unknown;
+  fields: { email: string; subject: string; message: string };
+  options: unknown;
+}
+
+/**
+ * Utility: Record the notifications queued through Notification.updateOne
+ */
+function recordNotifications(): QueuedNotification[] {
+  const queued: QueuedNotification[] = [];
+
+  mock.method(
+    Notification,
+    "updateOne",
+    (
+      filter: unknown,
+      update: { $setOnInsert: QueuedNotification["fields"] },
+      options: unknown
+    ) => {
+      queued.push({ filter, fields: update.$setOnInsert, options });
+      return query(null);
+    }
+  );
+
+  return queued;
+}
+
+describe("waitlist promotion", () => {
+  beforeEach(() => {
+    process.env.BOOKING_TOKEN_SECRET = "test-secret";
+    mock.method(Event, "findById", () => query(EVENT));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("emails the promoted attendee a seat and a working cancel link", async () => {
+    const waiting = { _id: new Types.ObjectId(), email: "ada@example.com" };
+    mock.method(Booking, "findOneAndUpdate", () => query(waiting));
+    const releaseSeat = mock.method(Event, "updateOne", () => query(null));
+    const notifications = recordNotifications();
+
+    assert.equal(await handOverSeat(EVENT_ID), waiting);
+    assert.equal(releaseSeat.mock.callCount(), 0);
+    assert.equal(notifications.length, 1);
+
+    const [{ filter, fields, options }] = notifications;
+    assert.deepEqual(filter, {
+      bookingId: waiting._id,
+      type: "booking_promoted",
+    });
+    assert.deepEqual(options, { upsert: true });
+
+    const { email, subject, message } = fields;
+    assert.equal(email, "ada@example.com");
+    assert.match(subject, /seat at Node Summit/);
+
+    const token = message.match(/\/bookings\/cancel\/(\S+)/)?.[1] ?? "";
+    assert.deepEqual(verifyCancellationToken(token), {
+      ok: true,
+      bookingId: String(waiting._id),
+    });
+  });
+
+  it("releases the seat and emails nobody when the waitlist is empty", async () => {
+    mock.method(Booking, "findOneAndUpdate", () => query(null));
+    const releaseSeat = mock.method(Event, "updateOne", () => query(null));
+    const notifications = recordNotifications();
+
+    assert.equal(await handOverSeat(EVENT_ID), null);
+    assert.equal(releaseSeat.mock.callCount(), 1);
+    assert.equal(notifications.length, 0);
+  });
+
+  it("emails everyone promoted when seats are added", async () => {
+    const waitlist = [
+      { _id: new Types.ObjectId(), email: "ada@example.com" },
+      { _id: new Types.ObjectId(), email: "grace@example.com" },
+    ];
+    mock.method(Event, "findOneAndUpdate", () => query({ _id: EVENT_ID }));
+    mock.method(Booking, "findOneAndUpdate", () =>
+      query(waitlist.shift() ?? null)
+    );
+    mock.method(Event, "updateOne", () => query(null));
+    const notifications = recordNotifications();
+
+    assert.equal(await fillSeatsFromWaitlist(EVENT_ID), 2);
+    assert.deepEqual(
+      notifications.map(({ fields }) => fields.email),
+      ["ada@example.com", "grace@example.com"]
+    );
+  });
+});
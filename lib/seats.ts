@@ -0,0 +1,133 @@
+/**
+ * Event Seat Management
+ * Atomic operations on an event's bookedSeats counter and its waitlist
+ */
+
+import "server-only";
+import { Booking, Event, type IBooking } from "@/database";
+import { queueBookingEmail } from "@/lib/booking-emails";
+
+/**
+ * Reserve Seat
+ * Atomically takes a seat if the event has one left, so concurrent
+ * bookings can never oversell. Events without a capacity never fill up.
+ *
+ * @param eventId - Event ID
+ * @returns true if a seat was taken, false if the event is full
+ */
+export async function reserveSeat(eventId: string): Promise<boolean> {
+  const reserved = await Event.findOneAndUpdate(
+    {
+      _id: eventId,
+      $or: [
+        { capacity: null },
+        {
+          $expr: {
+            $lt: [{ $ifNull: ["$bookedSeats", 0] }, "$capacity"],
+          },
+        },
+      ],
+    },
+    { $inc: { bookedSeats: 1 } },
+    { projection: { _id: 1 } }
+  ).exec();
+
+  return reserved !== null;
+}
+
+/**
+ * Release Seat
+ * Gives a reserved seat back to the event without touching the waitlist
+ *
+ * @param eventId - Event ID
+ */
+export async function releaseSeat(eventId: string): Promise<void> {
+  await Event.updateOne(
+    { _id: eventId, bookedSeats: { $gt: 0 } },
+    { $inc: { bookedSeats: -1 } }
+  ).exec();
+}
+
+/**
+ * Utility: Promote the oldest waitlisted booking into a seat already held
+ * for it
+ */
+function promoteNextWaitlisted(eventId: string): Promise<IBooking | null> {
+  return Booking.findOneAndUpdate(
+    { eventId, status: "waitlisted" },
+    { $set: { status: "confirmed" } },
+    { sort: { createdAt: 1, _id: 1 }, new: true }
+  ).exec();
+}
+
+/**
+ * Utility: Email a promoted attendee their seat and cancellation link
+ */
+async function notifyPromoted(eventId: string, promoted: IBooking[]) {
+  if (promoted.length === 0) {
+    return;
+  }
+
+  const event = await Event.findById(eventId)
+    .select("title date time")
+    .lean()
+    .exec();
+
+  if (!event) {
+    return;
+  }
+
+  for (const booking of promoted) {
+    await queueBookingEmail("promoted", booking, event);
+  }
+}
+
+/**
+ * Hand Over Seat
+ * Gives the seat of a cancelled confirmed booking to the oldest waitlisted
+ * booking, or back to the event if nobody is waiting
+ *
+ * @param eventId - Event ID
+ * @returns The promoted booking, or null if the seat was released
+ */
+export async function handOverSeat(eventId: string): Promise<IBooking | null> {
+  const promoted = await promoteNextWaitlisted(eventId);
+
+  if (!promoted) {
+    await releaseSeat(eventId);
+    return null;
+  }
+
+  await notifyPromoted(eventId, [promoted]);
+
+  return promoted;
+}
+
+/**
+ * Fill Seats From Waitlist
+ * Promotes waitlisted bookings, oldest first, while seats are available,
+ * and emails each promoted attendee
+ * Used after an event's capacity has been raised or removed
+ *
+ * @param eventId - Event ID
+ * @returns Number of bookings promoted
+ */
+export async function fillSeatsFromWaitlist(eventId: string): Promise<number> {
+  const promotedBookings: IBooking[] = [];
+
+  while (await reserveSeat(eventId)) {
+    const promoted = await promoteNextWaitlisted(eventId);
+
+    if (!promoted) {
+      // Nobody left waiting, so hand back the seat we just took
+      await releaseSeat(eventId);
+      break;
+    }
+
+    promotedBookings.push(promoted);
+  }
+
+  await notifyPromoted(eventId, promotedBookings);
+
+  return promotedBookings.length;
+}
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildSharedTagsFilter,
+  scoreSimilarity,
+  type SimilarityFields,
+} from "@/lib/similar-events";
+
+const base: SimilarityFields = {
+  tags: ["React", "frontend"],
+  mode: "online",
+  location: "Berlin",
+  audience: "Developers",
+  date: "2030-05-01",
+};
+
+/**
+ * Utility: An event sharing nothing with base, with some fields overridden
+ */
+function candidate(fields: Partial<SimilarityFields>): SimilarityFields {
+  return {
+    tags: ["cooking"],
+    mode: "offline",
+    location: "Lisbon",
+    audience: "Chefs",
+    date: "2031-01-01",
+    ...fields,
+  };
+}
+
+describe("scoreSimilarity", () => {
+  it("is 0 without a shared tag, whatever else matches", () => {
+    const sameEverythingElse = { ...base, tags: ["cooking"] };
+
+    assert.equal(scoreSimilarity(base, sameEverythingElse), 0);
+  });
+
+  it("compares tags case-insensitively and counts each once", () => {
+    assert.equal(
+      scoreSimilarity(base, candidate({ tags: ["react", " REACT "] })),
+      3
+    );
+  });
+
+  it("adds matching mode, location and audience to shared tags", () => {
+    const twoTags = scoreSimilarity(
+      base,
+      candidate({ tags: ["react", "frontend"] })
+    );
+    const oneTagAndTraits = scoreSimilarity(
+      base,
+      candidate({
+        tags: ["react"],
+        mode: "online",
+        location: "berlin",
+        audience: "developers",
+      })
+    );
+
+    assert.equal(twoTags, 6);
+    assert.equal(oneTagAndTraits, 8);
+  });
+
+  it("adds up to 2 points for nearby dates", () => {
+    const sameDay = scoreSimilarity(
+      base,
+      candidate({ tags: ["react"], date: "2030-05-01" })
+    );
+    const monthLater = scoreSimilarity(
+      base,
+      candidate({ tags: ["react"], date: "2030-05-31" })
+    );
+
+    assert.equal(sameDay, 5);
+    assert.equal(monthLater, 4);
+  });
+});
+
+describe("buildSharedTagsFilter", () => {
+  it("matches each tag whole, case-insensitively and literally", () => {
+    const [react, cpp] = buildSharedTagsFilter(["React", "C++"]).$in;
+
+    assert.ok(react.test("react"));
+    assert.ok(!react.test("preact"));
+    assert.ok(cpp.test("c++"));
+    assert.ok(!cpp.test("cc"));
+  });
+});
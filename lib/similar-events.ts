@@ -0,0 +1,111 @@
+/**
+ * Similar Events
+ * Scores how closely one event matches another for recommendations
+ *
+ * Only events sharing at least one tag count as similar; mode, location,
+ * audience and date then rank them
+ */
+
+import type { IEvent } from "@/database";
+
+/**
+ * Fields the similarity score is computed from
+ */
+export type SimilarityFields = Pick<
+  IEvent,
+  "tags" | "mode" | "location" | "audience" | "date"
+>;
+
+/**
+ * Score weights
+ * Tags dominate; mode, location and audience break ties between events
+ * covering the same topics, and date proximity nudges nearby events up
+ */
+const WEIGHTS = {
+  tag: 3, // per shared tag
+  mode: 2,
+  location: 2,
+  audience: 1,
+  date: 2, // at most, for an event on the same day
+};
+
+/**
+ * Events further apart than this get no date proximity points
+ */
+const DATE_PROXIMITY_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Utility: Normalize free text for comparison
+ */
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Utility: Escape a tag for use inside a RegExp
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Build Shared Tags Filter
+ * Tags are free text, so they match whole but case-insensitively, the same
+ * way scoreSimilarity compares them
+ *
+ * @param tags - Tags of the event the recommendations are for
+ * @returns Condition on the tags field matching events sharing any tag
+ */
+export function buildSharedTagsFilter(tags: string[]): { $in: RegExp[] } {
+  return {
+    $in: tags.map((tag) => new RegExp(`^${escapeRegex(tag.trim())}$`, "i")),
+  };
+}
+
+/**
+ * Score Similarity
+ *
+ * @param base - Event the recommendations are for
+ * @param candidate - Event being considered
+ * @returns Score, 0 when the events share no tags
+ */
+export function scoreSimilarity(
+  base: SimilarityFields,
+  candidate: SimilarityFields
+): number {
+  const baseTags = new Set(base.tags.map(normalize));
+  const sharedTags = new Set(
+    candidate.tags.map(normalize).filter((tag) => baseTags.has(tag))
+  ).size;
+
+  // Same mode or city alone doesn't make events about the same thing
+  if (sharedTags === 0) {
+    return 0;
+  }
+
+  let score = sharedTags * WEIGHTS.tag;
+
+  if (base.mode === candidate.mode) {
+    score += WEIGHTS.mode;
+  }
+
+  if (normalize(base.location) === normalize(candidate.location)) {
+    score += WEIGHTS.location;
+  }
+
+  if (normalize(base.audience) === normalize(candidate.audience)) {
+    score += WEIGHTS.audience;
+  }
+
+  // Dates are stored as YYYY-MM-DD, so both parse as UTC midnight
+  const days =
+    Math.abs(Date.parse(candidate.date) - Date.parse(base.date)) / DAY_MS;
+
+  if (days < DATE_PROXIMITY_DAYS) {
+    score += WEIGHTS.date * (1 - days / DATE_PROXIMITY_DAYS);
+  }
+
+  return score;
+}
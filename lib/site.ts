@@ -0,0 +1,22 @@
+/**
+ * Site Configuration
+ * Public base URL used for absolute links in calendars, feeds and metadata
+ */
+
+/**
+ * Base URL of the site without a trailing slash
+ * Set NEXT_PUBLIC_SITE_URL in production, e.g. https://devevent.example.com
+ */
+export const SITE_URL = (
+  process.env.NEXT_PUBLIC_SITE_URL ?? "http://localhost:3000"
+).replace(/\/+$/, "");
+
+/**
+ * Absolute URL
+ *
+ * @param path - Path starting with a slash
+ * @returns Absolute URL on this site
+ */
+export function absoluteUrl(path: string): string {
+  return `${SITE_URL}${path}`;
+}
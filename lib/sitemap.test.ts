@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getSitemapChunks, SITEMAP_CHUNK_SIZE } from "@/lib/sitemap";
+
+describe("getSitemapChunks", () => {
+  it("always has an events chunk 0 for the static pages", () => {
+    assert.deepEqual(getSitemapChunks(0, 0), [
+      { kind: "events", offset: 0, limit: SITEMAP_CHUNK_SIZE },
+    ]);
+  });
+
+  it("puts tag pages in chunks of their own after the events", () => {
+    const chunks = getSitemapChunks(SITEMAP_CHUNK_SIZE + 1, 3);
+
+    assert.deepEqual(
+      chunks.map(({ kind, offset }) => [kind, offset]),
+      [
+        ["events", 0],
+        ["events", SITEMAP_CHUNK_SIZE],
+        ["tags", 0],
+      ]
+    );
+  });
+
+  it("splits tags over several chunks when needed", () => {
+    const chunks = getSitemapChunks(10, 2 * SITEMAP_CHUNK_SIZE);
+
+    assert.deepEqual(
+      chunks.map(({ kind, offset }) => [kind, offset]),
+      [
+        ["events", 0],
+        ["tags", 0],
+        ["tags", SITEMAP_CHUNK_SIZE],
+      ]
+    );
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Sitemap Chunks
+ * Shared by the sitemap and robots.txt so both agree on the chunk ids
+ */
+
+/**
+ * Sitemaps may hold at most 50,000 URLs; the first chunk also carries the
+ * static pages, so leave room for them
+ */
+export const SITEMAP_CHUNK_SIZE = 45000;
+
+/**
+ * One sitemap file: a slice of either the events or the tag pages
+ */
+export interface SitemapChunk {
+  kind: "events" | "tags";
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Get Sitemap Chunks
+ * Event chunks come first, so chunk 0 always exists and holds the static
+ * pages; tag pages follow in chunks of their own
+ *
+ * @param eventCount - Number of events in the collection
+ * @param tagCount - Number of distinct tags
+ * @returns Chunks in id order
+ */
+export function getSitemapChunks(
+  eventCount: number,
+  tagCount: number
+): SitemapChunk[] {
+  const slices = (kind: SitemapChunk["kind"], count: number) =>
+    Array.from(
+      { length: Math.ceil(count / SITEMAP_CHUNK_SIZE) },
+      (_, i): SitemapChunk => ({
+        kind,
+        offset: i * SITEMAP_CHUNK_SIZE,
+        limit: SITEMAP_CHUNK_SIZE,
+      })
+    );
+
+  const eventChunks = slices("events", eventCount);
+
+  return [
+    ...(eventChunks.length > 0
+      ? eventChunks
+      : [{ kind: "events" as const, offset: 0, limit: SITEMAP_CHUNK_SIZE }]),
+    ...slices("tags", tagCount),
+  ];
+}
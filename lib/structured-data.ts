@@ -0,0 +1,73 @@
+/**
+ * Structured Data
+ * schema.org JSON-LD for rich search results
+ */
+
+import type { EventDTO } from "@/lib/types/dtos";
+import { absoluteUrl } from "@/lib/site";
+
+/**
+ * schema.org attendance mode for each event mode
+ */
+const ATTENDANCE_MODES: Record<EventDTO["mode"], string> = {
+  online: "https://schema.org/OnlineEventAttendanceMode",
+  offline: "https://schema.org/OfflineEventAttendanceMode",
+  hybrid: "https://schema.org/MixedEventAttendanceMode",
+};
+
+/**
+ * Build Event JSON-LD
+ * Online events get a VirtualLocation, offline ones a Place, hybrid both
+ *
+ * @param event - Event to describe
+ * @returns schema.org Event object, ready for JSON.stringify
+ */
+export function buildEventJsonLd(event: EventDTO): Record<string, unknown> {
+  const url = absoluteUrl(`/events/${event.slug}`);
+
+  const place = {
+    "@type": "Place",
+    name: event.venue,
+    address: event.location,
+  };
+  const virtualLocation = { "@type": "VirtualLocation", url };
+
+  const location =
+    event.mode === "online"
+      ? virtualLocation
+      : event.mode === "offline"
+      ? place
+      : [place, virtualLocation];
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Event",
+    name: event.title,
+    description: event.description,
+    url,
+    image: [event.image],
+    // Times are stored without a zone, so they are given as local times
+    startDate: `${event.date}T${event.time.padStart(5, "0")}`,
+    eventStatus: "https://schema.org/EventScheduled",
+    eventAttendanceMode: ATTENDANCE_MODES[event.mode],
+    location,
+    organizer: { "@type": "Organization", name: event.organizer },
+    audience: { "@type": "Audience", audienceType: event.audience },
+    keywords: event.tags.join(", "),
+    ...(event.capacity !== null && {
+      maximumAttendeeCapacity: event.capacity,
+      remainingAttendeeCapacity: Math.max(
+        event.capacity - event.bookedSeats,
+        0
+      ),
+    }),
+  };
+}
+
+/**
+ * Serialize JSON-LD for a script tag
+ * Escapes "<" so event text can never close the script element
+ */
+export function serializeJsonLd(data: Record<string, unknown>): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
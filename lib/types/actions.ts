@@ -5,16 +5,22 @@
 
 import { ZodIssue } from "zod";
 
+export type ActionErrorCode =
+  | "VALIDATION_ERROR"
+  | "NOT_FOUND"
+  | "UNAUTHORIZED"
+  | "CONFLICT"
+  | "UNKNOWN";
+
+/**
+ * A successful result may carry a warning when the main change went
+ * through but a follow-up step did not
+ */
 export type ActionResult<T> =
-  | { ok: true; data: T }
+  | { ok: true; data: T; warning?: string }
   | {
       ok: false;
-      code:
-        | "VALIDATION_ERROR"
-        | "NOT_FOUND"
-        | "UNAUTHORIZED"
-        | "CONFLICT"
-        | "UNKNOWN";
+      code: ActionErrorCode;
       message: string;
       issues?: ZodIssue[];
     };
@@ -3,6 +3,8 @@
  * Clean, stable types for API responses without Mongoose-specific fields
  */
 
+import type { WebhookDeliveryStatus, WebhookEventType } from "@/database";
+
 /**
  * Event DTO
  * Public-facing event data structure
@@ -23,15 +25,205 @@ export interface EventDTO {
   agenda: string[];
   organizer: string;
   tags: string[];
+  capacity: number | null;
+  bookedSeats: number;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Event Card DTO
+ * Lightweight projection carrying only the fields EventCard renders
+ */
+export type EventCardDTO = Pick<
+  EventDTO,
+  "_id" | "title" | "slug" | "image" | "location" | "date" | "time"
+>;
+
 /**
  * Events List DTO
  * Response for listing multiple events
  */
-export interface EventsListDTO {
-  events: EventDTO[];
+export interface EventsListDTO<T extends EventCardDTO = EventDTO> {
+  events: T[];
   total: number;
+  /** Cursor for the next page, null on the last page (paginated lists only) */
+  nextCursor?: string | null;
+}
+
+/**
+ * Booking DTO
+ * Public-facing booking data structure
+ */
+export interface BookingDTO {
+  _id: string;
+  eventId: string;
+  email: string;
+  status: "confirmed" | "waitlisted";
+  createdAt: string;
+  updatedAt: string;
+  /** Signed cancellation token, only present on a newly created booking */
+  cancelToken?: string;
+}
+
+/**
+ * Booking Cancellation DTO
+ * Booking looked up from a cancellation token, with the event it belongs to
+ */
+export interface BookingCancellationDTO {
+  booking: BookingDTO;
+  event: Pick<EventDTO, "_id" | "title" | "slug" | "date" | "time">;
+}
+
+/**
+ * Attendee DTO
+ * Booking as shown to the event's organizer
+ */
+export interface AttendeeDTO {
+  bookingId: string;
+  email: string;
+  status: BookingDTO["status"];
+  /** Place in the waitlist, null for confirmed attendees */
+  waitlistPosition: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Attendee List DTO
+ * Every booking of one event, oldest first
+ */
+export interface AttendeeListDTO {
+  event: Pick<EventDTO, "_id" | "title" | "slug" | "date" | "time">;
+  attendees: AttendeeDTO[];
+  confirmed: number;
+  waitlisted: number;
+}
+
+/**
+ * Booking Webhook DTO
+ * Data of booking.created and booking.cancelled webhook payloads
+ */
+export interface BookingWebhookDTO {
+  booking: BookingDTO;
+  event: Pick<EventDTO, "_id" | "title" | "slug">;
+}
+
+/**
+ * Booking Count DTO
+ * Number of confirmed bookings for a single event
+ */
+export interface BookingCountDTO {
+  eventId: string;
+  count: number;
+}
+
+/**
+ * Search Snippet Segment
+ * Piece of a result snippet, flagged when it matches a search term
+ */
+export interface SnippetSegmentDTO {
+  text: string;
+  highlight: boolean;
+}
+
+/**
+ * Search Results DTO
+ * Ranked search results with highlighted snippets
+ */
+export interface SearchResultsDTO {
+  query: string;
+  results: {
+    event: EventCardDTO;
+    snippet: SnippetSegmentDTO[];
+  }[];
+  total: number;
+}
+
+/**
+ * Sitemap Event DTO
+ * Minimal event data needed for a sitemap entry
+ */
+export type SitemapEventDTO = Pick<EventDTO, "slug" | "updatedAt">;
+
+/**
+ * Sitemap Index DTO
+ * Sizes needed to split the sitemap into chunks
+ */
+export interface SitemapIndexDTO {
+  eventCount: number;
+  tags: string[];
+}
+
+/**
+ * Event Import Row DTO
+ * Outcome of one imported row; row numbers are 1-based, headers excluded
+ */
+export interface EventImportRowDTO {
+  row: number;
+  title: string | null;
+  /** valid rows are only checked (dry run); created rows were saved */
+  status: "valid" | "created" | "invalid" | "failed";
+  slug?: string;
+  errors: string[];
+}
+
+/**
+ * Event Import Report DTO
+ * Per-row results of a bulk import, with totals
+ */
+export interface EventImportReportDTO {
+  dryRun: boolean;
+  rows: EventImportRowDTO[];
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Webhook DTO
+ * Registered webhook endpoint
+ */
+export interface WebhookDTO {
+  _id: string;
+  url: string;
+  events: WebhookEventType[];
+  createdAt: string;
+  updatedAt: string;
+  /** Signing secret, only present on a newly created webhook */
+  secret?: string;
+}
+
+/**
+ * Webhook Delivery DTO
+ * Delivery log entry for a webhook
+ */
+export interface WebhookDeliveryDTO {
+  _id: string;
+  type: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** When the next retry is due, null once the delivery is settled */
+  nextAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Webhook Details DTO
+ * Webhook with its most recent deliveries
+ */
+export interface WebhookDetailsDTO {
+  webhook: WebhookDTO;
+  deliveries: WebhookDeliveryDTO[];
+}
+
+/**
+ * Organizer DTO
+ * Signed-in organizer: the API key's name and the owner it acts for
+ */
+export interface OrganizerDTO {
+  name: string;
+  owner: string;
 }
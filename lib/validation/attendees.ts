@@ -0,0 +1,18 @@
+/**
+ * Attendee Validation Schemas
+ * Zod schemas for runtime validation of attendee exports
+ */
+
+import { z } from "zod";
+
+/**
+ * Export format enum
+ */
+export const attendeeExportFormatSchema = z.enum(["csv", "xlsx", "json"], {
+  message: "Format must be csv, xlsx, or json",
+});
+
+/**
+ * Type exports for TypeScript inference
+ */
+export type AttendeeExportFormat = z.infer<typeof attendeeExportFormatSchema>;
@@ -0,0 +1,21 @@
+/**
+ * Booking Validation Schemas
+ * Zod schemas for runtime validation of booking data
+ */
+
+import { z } from "zod";
+import { emailSchema, objectIdSchema } from "./events";
+
+/**
+ * Create Booking Schema
+ * Validates all fields required to book a spot for an event
+ */
+export const createBookingSchema = z.object({
+  eventId: objectIdSchema,
+  email: emailSchema,
+});
+
+/**
+ * Type exports for TypeScript inference
+ */
+export type CreateBookingInput = z.infer<typeof createBookingSchema>;
@@ -26,6 +26,15 @@ export const slugSchema = z
   )
   .trim();
 
+/**
+ * MongoDB ObjectId validation schema
+ * Ensures the value is a 24-character hex string
+ */
+export const objectIdSchema = z
+  .string()
+  .min(1, "ID is required")
+  .regex(/^[a-f\d]{24}$/i, "Invalid ID format");
+
 /**
  * Date validation schema
  * Validates date format (YYYY-MM-DD) and ensures it's not in the past
@@ -126,9 +135,130 @@ export const createEventSchema = z.object({
     .min(1, "At least one tag is required")
     .max(10, "Maximum 10 tags allowed"),
 
+  capacity: z.coerce
+    .number({ message: "Capacity must be a number" })
+    .int("Capacity must be a whole number")
+    .min(1, "Capacity must be at least 1")
+    .max(100000, "Capacity must be 100000 or less")
+    .optional(),
+
   // Image will be validated separately as File object
 });
 
+/**
+ * Update Event Schema
+ * Every field is optional so only submitted fields are changed
+ * Capacity may be null to remove the seat limit
+ */
+export const updateEventSchema = createEventSchema.partial().extend({
+  capacity: createEventSchema.shape.capacity.unwrap().nullable().optional(),
+});
+
+/**
+ * Event sort enum
+ * date-asc: soonest first, date-desc: latest first, newest: recently added
+ */
+export const eventSortSchema = z.enum(["date-asc", "date-desc", "newest"], {
+  message: "Sort must be date-asc, date-desc, or newest",
+});
+
+/**
+ * Event timeframe enum
+ * upcoming: today or later, past: before today
+ */
+export const eventTimeframeSchema = z.enum(["upcoming", "past"], {
+  message: "Timeframe must be upcoming or past",
+});
+
+/**
+ * Event Filters Schema
+ * Validates the filters used to list events
+ */
+export const eventFiltersSchema = z.object({
+  when: eventTimeframeSchema.optional(),
+
+  mode: eventModeSchema.optional(),
+
+  tag: z
+    .string()
+    .trim()
+    .min(1, "Tag cannot be empty")
+    .max(50, "Tag must be 50 characters or less")
+    .optional(),
+
+  location: z
+    .string()
+    .trim()
+    .min(1, "Location cannot be empty")
+    .max(200, "Location must be 200 characters or less")
+    .optional(),
+
+  from: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "From date must be in YYYY-MM-DD format")
+    .optional(),
+
+  to: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "To date must be in YYYY-MM-DD format")
+    .optional(),
+});
+
+/**
+ * Feed Filters Schema
+ * Filters accepted by subscribable feeds, which always cover upcoming events
+ */
+export const feedFiltersSchema = eventFiltersSchema.pick({
+  tag: true,
+  mode: true,
+  location: true,
+});
+
+/**
+ * Pagination Schema
+ * Cursor-based pagination shared by event listings
+ */
+export const paginationSchema = z.object({
+  cursor: z.string().max(500, "Invalid cursor").optional(),
+  limit: z.coerce
+    .number()
+    .int("Limit must be a whole number")
+    .min(1, "Limit must be at least 1")
+    .max(50, "Limit must be 50 or less")
+    .default(12),
+});
+
+/**
+ * All Events Schema
+ * Pagination plus an optional timeframe for getAllEvents
+ */
+export const allEventsSchema = paginationSchema.extend({
+  when: eventTimeframeSchema.optional(),
+});
+
+/**
+ * List Events Schema
+ * Filters plus sorting and cursor-based pagination
+ */
+export const listEventsSchema = eventFiltersSchema
+  .extend({
+    sort: eventSortSchema.default("date-asc"),
+    ...paginationSchema.shape,
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: "From date must be before To date",
+    path: ["to"],
+  });
+
+/**
+ * Search query validation schema
+ */
+export const searchQuerySchema = z
+  .string()
+  .trim()
+  .min(2, "Search must be at least 2 characters")
+  .max(100, "Search must be 100 characters or less");
+
 /**
  * Image file validation
  * Validates uploaded image files
@@ -149,4 +279,24 @@ export const imageFileSchema = z
  * Type exports for TypeScript inference
  */
 export type CreateEventInput = z.infer<typeof createEventSchema>;
+export type UpdateEventInput = z.infer<typeof updateEventSchema>;
 export type EventMode = z.infer<typeof eventModeSchema>;
+export type EventSort = z.infer<typeof eventSortSchema>;
+export type EventFilters = z.infer<typeof eventFiltersSchema>;
+export type ListEventsInput = z.infer<typeof listEventsSchema>;
+export type EventTimeframe = z.infer<typeof eventTimeframeSchema>;
+export type AllEventsOptions = z.input<typeof allEventsSchema>;
+
+/**
+ * Raw list query, e.g. straight from URL search params
+ */
+export type ListEventsQuery = {
+  [K in keyof ListEventsInput]?: string | number;
+};
+
+/**
+ * Raw feed query, e.g. straight from URL search params
+ */
+export type FeedQuery = {
+  [K in keyof z.input<typeof feedFiltersSchema>]?: string;
+};
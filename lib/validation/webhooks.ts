@@ -0,0 +1,36 @@
+/**
+ * Webhook Validation Schemas
+ * Zod schemas for runtime validation of webhook registrations
+ */
+
+import { z } from "zod";
+import { WEBHOOK_EVENT_TYPES } from "@/database";
+
+/**
+ * Webhook event type enum - matches Mongoose schema
+ */
+export const webhookEventTypeSchema = z.enum(WEBHOOK_EVENT_TYPES, {
+  message: `Event type must be one of ${WEBHOOK_EVENT_TYPES.join(", ")}`,
+});
+
+/**
+ * Create Webhook Schema
+ * Validates the endpoint URL and the subscribed event types
+ */
+export const createWebhookSchema = z.object({
+  // Whether http is allowed too is decided by getWebhookUrlPolicy
+  url: z.url({
+    protocol: /^https?$/,
+    message: "Webhook URL must be a valid https URL",
+  }),
+  events: z
+    .array(webhookEventTypeSchema)
+    .min(1, "Subscribe to at least one event type")
+    // Duplicates would otherwise be stored as given
+    .transform((events) => [...new Set(events)]),
+});
+
+/**
+ * Type exports for TypeScript inference
+ */
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
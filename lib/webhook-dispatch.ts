@@ -0,0 +1,36 @@
+/**
+ * Webhook Dispatch
+ * Fires webhooks from server actions and route handlers
+ */
+
+import "server-only";
+import { after } from "next/server";
+import connectDB from "@/database/mongodb";
+import type { WebhookEventType } from "@/database";
+import { deliverWebhook, enqueueWebhookEvent } from "@/lib/webhooks";
+
+/**
+ * Dispatch Webhook Event
+ * Runs after the response is sent, so receivers never slow down or break
+ * the action; failed attempts are left to the retry worker
+ *
+ * @param type - Event type
+ * @param data - Payload data
+ * @param owner - Owner of the affected event; required for booking.* events
+ */
+export function dispatchWebhookEvent(
+  type: WebhookEventType,
+  data: unknown,
+  owner?: string | null
+): void {
+  after(async () => {
+    try {
+      await connectDB();
+
+      const deliveryIds = await enqueueWebhookEvent(type, data, owner);
+      await Promise.all(deliveryIds.map((id) => deliverWebhook(id)));
+    } catch (error) {
+      console.error(`[dispatchWebhookEvent] ${type} Error:`, error);
+    }
+  });
+}
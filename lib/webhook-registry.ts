@@ -0,0 +1,280 @@
+/**
+ * Webhook Registry
+ * Lets organizers manage their webhooks through the API
+ * Every operation is scoped to the owner of the calling API key
+ */
+
+import "server-only";
+import { ZodError } from "zod";
+import connectDB from "@/database/mongodb";
+import {
+  Webhook,
+  WebhookDelivery,
+  type IWebhook,
+  type IWebhookDelivery,
+} from "@/database";
+import type { ActionResult } from "@/lib/types/actions";
+import type {
+  WebhookDeliveryDTO,
+  WebhookDetailsDTO,
+  WebhookDTO,
+} from "@/lib/types/dtos";
+import { objectIdSchema } from "@/lib/validation/events";
+import { assertPublicUrl } from "@/lib/public-http";
+import { createWebhookSchema } from "@/lib/validation/webhooks";
+import { generateWebhookSecret, getWebhookUrlPolicy } from "@/lib/webhooks";
+
+/**
+ * Number of deliveries shown with a webhook
+ */
+const RECENT_DELIVERIES_LIMIT = 50;
+
+/**
+ * Utility: Transform Mongoose document to WebhookDTO
+ * The secret is left out; only creation returns it
+ */
+function toWebhookDTO(
+  doc: Pick<IWebhook, "url" | "events" | "createdAt" | "updatedAt"> & {
+    _id: unknown;
+  }
+): WebhookDTO {
+  return {
+    _id: String(doc._id),
+    url: doc.url,
+    events: doc.events,
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Utility: Transform Mongoose document to WebhookDeliveryDTO
+ */
+function toWebhookDeliveryDTO(
+  doc: Pick<
+    IWebhookDelivery,
+    | "type"
+    | "status"
+    | "attempts"
+    | "nextAttemptAt"
+    | "lastStatusCode"
+    | "lastError"
+    | "deliveredAt"
+    | "createdAt"
+  > & {
+    _id: unknown;
+  }
+): WebhookDeliveryDTO {
+  return {
+    _id: String(doc._id),
+    type: doc.type,
+    status: doc.status,
+    attempts: doc.attempts,
+    nextAttemptAt: doc.nextAttemptAt?.toISOString() ?? null,
+    lastStatusCode: doc.lastStatusCode ?? null,
+    lastError: doc.lastError ?? null,
+    deliveredAt: doc.deliveredAt?.toISOString() ?? null,
+    createdAt: doc.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Utility: Validation error for a malformed webhook ID
+ */
+function invalidIdError(error: ZodError) {
+  return {
+    ok: false,
+    code: "VALIDATION_ERROR",
+    message: "Invalid webhook ID",
+    issues: error.issues,
+  } as const;
+}
+
+/**
+ * Create Webhook
+ * The URL must use https and resolve to public addresses only, unless
+ * local receivers are allowed (see getWebhookUrlPolicy)
+ *
+ * @param owner - Owner email from the API key
+ * @param input - Unvalidated request body
+ * @returns ActionResult with the webhook, including its signing secret
+ */
+export async function createWebhook(
+  owner: string,
+  input: unknown
+): Promise<ActionResult<WebhookDTO>> {
+  try {
+    const validated = createWebhookSchema.parse(input);
+
+    // Checked again on every delivery, as DNS can change after this
+    try {
+      await assertPublicUrl(validated.url, getWebhookUrlPolicy());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        ok: false,
+        code: "VALIDATION_ERROR",
+        message: `Webhook URL is not allowed: ${message}`,
+      };
+    }
+
+    await connectDB();
+
+    const secret = generateWebhookSecret();
+    const webhook = await Webhook.create({ ...validated, secret, owner });
+
+    return {
+      ok: true,
+      data: { ...toWebhookDTO(webhook.toObject()), secret },
+    };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return {
+        ok: false,
+        code: "VALIDATION_ERROR",
+        message: error.issues[0].message,
+        issues: error.issues,
+      };
+    }
+
+    console.error("[createWebhook] Error:", error);
+
+    return {
+      ok: false,
+      code: "UNKNOWN",
+      message: "Failed to create webhook",
+    };
+  }
+}
+
+/**
+ * List Webhooks
+ *
+ * @param owner - Owner email from the API key
+ * @returns ActionResult with the owner's webhooks, newest first
+ */
+export async function listWebhooks(
+  owner: string
+): Promise<ActionResult<WebhookDTO[]>> {
+  try {
+    await connectDB();
+
+    const webhooks = await Webhook.find({ owner })
+      .sort({ createdAt: -1 })
+      .lean()
+      .exec();
+
+    return { ok: true, data: webhooks.map(toWebhookDTO) };
+  } catch (error) {
+    console.error("[listWebhooks] Error:", error);
+
+    return {
+      ok: false,
+      code: "UNKNOWN",
+      message: "Failed to fetch webhooks",
+    };
+  }
+}
+
+/**
+ * Get Webhook
+ *
+ * @param owner - Owner email from the API key
+ * @param webhookId - Webhook ID
+ * @returns ActionResult with the webhook and its recent deliveries
+ */
+export async function getWebhook(
+  owner: string,
+  webhookId: string
+): Promise<ActionResult<WebhookDetailsDTO>> {
+  try {
+    const validatedId = objectIdSchema.parse(webhookId);
+
+    await connectDB();
+
+    // Another owner's webhook is reported as missing, not forbidden
+    const webhook = await Webhook.findOne({ _id: validatedId, owner })
+      .lean()
+      .exec();
+
+    if (!webhook) {
+      return {
+        ok: false,
+        code: "NOT_FOUND",
+        message: "Webhook not found",
+      };
+    }
+
+    const deliveries = await WebhookDelivery.find({ webhookId: validatedId })
+      .sort({ createdAt: -1 })
+      .limit(RECENT_DELIVERIES_LIMIT)
+      .select("-body")
+      .lean()
+      .exec();
+
+    return {
+      ok: true,
+      data: {
+        webhook: toWebhookDTO(webhook),
+        deliveries: deliveries.map(toWebhookDeliveryDTO),
+      },
+    };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return invalidIdError(error);
+    }
+
+    console.error("[getWebhook] Error:", error);
+
+    return {
+      ok: false,
+      code: "UNKNOWN",
+      message: "Failed to fetch webhook",
+    };
+  }
+}
+
+/**
+ * Delete Webhook
+ * Pending deliveries are failed by the worker once it finds the webhook gone
+ *
+ * @param owner - Owner email from the API key
+ * @param webhookId - Webhook ID
+ * @returns ActionResult with the deleted webhook
+ */
+export async function deleteWebhook(
+  owner: string,
+  webhookId: string
+): Promise<ActionResult<WebhookDTO>> {
+  try {
+    const validatedId = objectIdSchema.parse(webhookId);
+
+    await connectDB();
+
+    const webhook = await Webhook.findOneAndDelete({ _id: validatedId, owner })
+      .lean()
+      .exec();
+
+    if (!webhook) {
+      return {
+        ok: false,
+        code: "NOT_FOUND",
+        message: "Webhook not found",
+      };
+    }
+
+    return { ok: true, data: toWebhookDTO(webhook) };
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return invalidIdError(error);
+    }
+
+    console.error("[deleteWebhook] Error:", error);
+
+    return {
+      ok: false,
+      code: "UNKNOWN",
+      message: "Failed to delete webhook",
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { describe, it } from "node:test";
+import {
+  generateWebhookSecret,
+  getRetryDelay,
+  getWebhookUrlPolicy,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "@/lib/webhooks";
+
+const SECRET = "whsec_test";
+const BODY = '{"type":"booking.created"}';
+
+describe("webhook signatures", () => {
+  it("are the hex HMAC-SHA256 of the timestamp and body", () => {
+    const expected = createHmac("sha256", SECRET)
+      .update(`1700000000.${BODY}`)
+      .digest("hex");
+
+    assert.equal(
+      signWebhookPayload(SECRET, 1700000000, BODY),
+      `sha256=${expected}`
+    );
+  });
+
+  it("verify for the same secret, timestamp and body", () => {
+    const now = Math.floor(Date.now() / 1000);
+    const signature = signWebhookPayload(SECRET, now, BODY);
+
+    assert.ok(verifyWebhookSignature(SECRET, String(now), BODY, signature));
+    assert.ok(
+      !verifyWebhookSignature("whsec_other", String(now), BODY, signature)
+    );
+    assert.ok(
+      !verifyWebhookSignature(SECRET, String(now), `${BODY} `, signature)
+    );
+    assert.ok(!verifyWebhookSignature(SECRET, String(now), BODY, "sha256=00"));
+  });
+
+  it("reject stale or malformed timestamps", () => {
+    const stale = Math.floor(Date.now() / 1000) - 10 * 60;
+    const signature = signWebhookPayload(SECRET, stale, BODY);
+
+    assert.ok(!verifyWebhookSignature(SECRET, String(stale), BODY, signature));
+    assert.ok(!verifyWebhookSignature(SECRET, "soon", BODY, signature));
+  });
+
+  it("use fresh random secrets", () => {
+    const secret = generateWebhookSecret();
+
+    assert.match(secret, /^whsec_[\w-]{32}$/);
+    assert.notEqual(secret, generateWebhookSecret());
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("doubles from 30 seconds and stops at 6 hours", () => {
+    assert.deepEqual(
+      [1, 2, 3, 4].map(getRetryDelay),
+      [30_000, 60_000, 120_000, 240_000]
+    );
+    assert.equal(getRetryDelay(20), 6 * 60 * 60 * 1000);
+  });
+});
+
+describe("getWebhookUrlPolicy", () => {
+  it("only allows public https receivers by default", () => {
+    delete process.env.WEBHOOKS_ALLOW_LOCAL;
+
+    assert.deepEqual(getWebhookUrlPolicy(), { protocols: ["https:"] });
+  });
+
+  it("allows local http receivers when WEBHOOKS_ALLOW_LOCAL is true", () => {
+    process.env.WEBHOOKS_ALLOW_LOCAL = "true";
+
+    try {
+      assert.deepEqual(getWebhookUrlPolicy(), {
+        protocols: ["http:", "https:"],
+        allowLoopback: true,
+      });
+    } finally {
+      delete process.env.WEBHOOKS_ALLOW_LOCAL;
+    }
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * Webhooks
+ * Signs, delivers and retries webhook notifications
+ *
+ * Every delivery is a POST with a JSON body { id, type, createdAt, data } and
+ * these headers:
+ *   X-DevEvent-Event      event type, e.g. booking.created
+ *   X-DevEvent-Delivery   delivery ID, stable across retries
+ *   X-DevEvent-Timestamp  UNIX seconds when this attempt was signed
+ *   X-DevEvent-Signature  sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ *
+ * Not server-only so the retry worker script can use it; callers must be
+ * connected to MongoDB.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { Types } from "mongoose";
+import {
+  Webhook,
+  WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEventType,
+} from "@/database";
+import { publicRequest, type PublicUrlOptions } from "@/lib/public-http";
+
+/**
+ * Attempts before a delivery is marked failed
+ */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+/**
+ * Retry delays double from 30 seconds up to 6 hours
+ */
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * How long a receiver gets to answer
+ */
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * How long a claimed delivery is hidden from other workers
+ */
+const DELIVERY_LEASE_MS = 60 * 1000;
+
+/**
+ * Signatures older than this are rejected by verifyWebhookSignature
+ */
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Get Webhook URL Policy
+ * Receivers must be public https endpoints. WEBHOOKS_ALLOW_LOCAL=true also
+ * allows http and loopback receivers, such as scripts/webhook-receiver.ts,
+ * for local development; leave it unset in production
+ *
+ * @returns Options for checking and requesting webhook URLs
+ */
+export function getWebhookUrlPolicy(): PublicUrlOptions {
+  return process.env.WEBHOOKS_ALLOW_LOCAL === "true"
+    ? { protocols: ["http:", "https:"], allowLoopback: true }
+    : { protocols: ["https:"] };
+}
+
+/**
+ * Generate Webhook Secret
+ *
+ * @returns Random signing secret, shown to the integrator once
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Sign Webhook Payload
+ * The timestamp is signed too, so captured requests can't be replayed later
+ *
+ * @param secret - Webhook signing secret
+ * @param timestamp - UNIX seconds
+ * @param body - Exact request body
+ * @returns Signature header value
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verify Webhook Signature
+ * For receivers; compares in constant time and rejects stale timestamps
+ *
+ * @param secret - Webhook signing secret
+ * @param timestamp - X-DevEvent-Timestamp header
+ * @param body - Raw request body
+ * @param signature - X-DevEvent-Signature header
+ * @returns true if the request is authentic and fresh
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string
+): boolean {
+  const seconds = Number(timestamp);
+
+  if (
+    !Number.isInteger(seconds) ||
+    Math.abs(Date.now() / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS
+  ) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, seconds, body));
+  const received = Buffer.from(signature);
+
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * Get Retry Delay
+ *
+ * @param attempts - Attempts made so far
+ * @returns Milliseconds to wait before the next attempt
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    MAX_RETRY_DELAY_MS
+  );
+}
+
+/**
+ * Enqueue Webhook Event
+ * Records one pending delivery per subscribed webhook
+ *
+ * @param type - Event type
+ * @param data - Payload data, serialized as JSON
+ * @param owner - Owner of the affected event; required for booking.* events
+ * @returns IDs of the created deliveries
+ */
+export async function enqueueWebhookEvent(
+  type: WebhookEventType,
+  data: unknown,
+  owner?: string | null
+): Promise<string[]> {
+  const isBookingEvent = type.startsWith("booking.");
+
+  // Attendee data only goes to the event's owner
+  if (isBookingEvent && !owner) {
+    return [];
+  }
+
+  const webhooks = await Webhook.find({
+    events: type,
+    ...(isBookingEvent && { owner }),
+  })
+    .select("_id")
+    .lean()
+    .exec();
+
+  if (webhooks.length === 0) {
+    return [];
+  }
+
+  const createdAt = new Date().toISOString();
+  const deliveries = webhooks.map((webhook) => {
+    const _id = new Types.ObjectId();
+
+    return {
+      _id,
+      webhookId: webhook._id,
+      type,
+      body: JSON.stringify({ id: String(_id), type, createdAt, data }),
+    };
+  });
+
+  await WebhookDelivery.insertMany(deliveries);
+
+  return deliveries.map((delivery) => String(delivery._id));
+}
+
+/**
+ * Deliver Webhook
+ * Makes one attempt if the delivery is due, then records the outcome and
+ * schedules the next attempt with exponential backoff
+ *
+ * @param deliveryId - Delivery to attempt
+ * @returns New status, or null if the delivery wasn't due or was claimed
+ */
+export async function deliverWebhook(
+  deliveryId: string
+): Promise<WebhookDeliveryStatus | null> {
+  const now = new Date();
+
+  // Claim the delivery so concurrent workers don't send it twice
+  const delivery = await WebhookDelivery.findOneAndUpdate(
+    { _id: deliveryId, status: "pending", nextAttemptAt: { $lte: now } },
+    {
+      $inc: { attempts: 1 },
+      nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS),
+    },
+    { new: true }
+  )
+    .lean()
+    .exec();
+
+  if (!delivery) {
+    return null;
+  }
+
+  const webhook = await Webhook.findById(delivery.webhookId).lean().exec();
+
+  if (!webhook) {
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      { status: "failed", nextAttemptAt: null, lastError: "Webhook deleted" }
+    ).exec();
+    return "failed";
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  let statusCode: number | null = null;
+  let error: string | null = null;
+
+  try {
+    // Only public https addresses (see getWebhookUrlPolicy), checked after
+    // DNS resolution, and redirects count as failures rather than being
+    // followed
+    const response = await publicRequest(webhook.url, {
+      ...getWebhookUrlPolicy(),
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Length": String(Buffer.byteLength(delivery.body)),
+        "User-Agent": "DevEvent-Webhooks/1.0",
+        "X-DevEvent-Event": delivery.type,
+        "X-DevEvent-Delivery": String(delivery._id),
+        "X-DevEvent-Timestamp": String(timestamp),
+        "X-DevEvent-Signature": signWebhookPayload(
+          webhook.secret,
+          timestamp,
+          delivery.body
+        ),
+      },
+      body: delivery.body,
+      timeoutMs: DELIVERY_TIMEOUT_MS,
+    });
+
+    statusCode = response.status;
+    if (statusCode < 200 || statusCode >= 300) {
+      error = `Receiver responded with ${statusCode}`;
+    }
+  } catch (caught) {
+    error = caught instanceof Error ? caught.message : String(caught);
+  }
+
+  if (!error) {
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      {
+        status: "succeeded",
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+        lastStatusCode: statusCode,
+        lastError: null,
+      }
+    ).exec();
+    return "succeeded";
+  }
+
+  const exhausted = delivery.attempts >= MAX_DELIVERY_ATTEMPTS;
+
+  await WebhookDelivery.updateOne(
+    { _id: delivery._id },
+    {
+      status: exhausted ? "failed" : "pending",
+      nextAttemptAt: exhausted
+        ? null
+        : new Date(Date.now() + getRetryDelay(delivery.attempts)),
+      lastStatusCode: statusCode,
+      lastError: error,
+    }
+  ).exec();
+
+  return exhausted ? "failed" : "pending";
+}
+
+/**
+ * Process Due Deliveries
+ * Attempts pending deliveries whose retry time has come, oldest first
+ *
+ * @param limit - Maximum number of deliveries to attempt
+ * @returns Number of deliveries attempted
+ */
+export async function processDueDeliveries(limit = 50): Promise<number> {
+  const due = await WebhookDelivery.find({
+    status: "pending",
+    nextAttemptAt: { $lte: new Date() },
+  })
+    .sort({ nextAttemptAt: 1 })
+    .limit(limit)
+    .select("_id")
+    .lean()
+    .exec();
+
+  let attempted = 0;
+
+  // One at a time, so a slow receiver can't flood the worker
+  for (const delivery of due) {
+    if (await deliverWebhook(String(delivery._id))) {
+      attempted++;
+    }
+  }
+
+  return attempted;
+}
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { crc32, inflateRawSync } from "node:zlib";
+import { buildXlsx } from "@/lib/xlsx";
+
+/**
+ * Utility: Read every file of a zip archive through its central directory
+ */
+function unzip(zip: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+  const end = zip.length - 22;
+
+  assert.equal(zip.readUInt32LE(end), 0x06054b50);
+
+  let position = zip.readUInt32LE(end + 16);
+  for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+    assert.equal(zip.readUInt32LE(position), 0x02014b50);
+
+    const checksum = zip.readUInt32LE(position + 16);
+    const compressedSize = zip.readUInt32LE(position + 20);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const localOffset = zip.readUInt32LE(position + 42);
+    const name = zip.toString(
+      "utf8",
+      position + 46,
+      position + 46 + nameLength
+    );
+
+    const dataStart =
+      localOffset + 30 + nameLength + zip.readUInt16LE(localOffset + 28);
+    const data = inflateRawSync(
+      zip.subarray(dataStart, dataStart + compressedSize)
+    );
+
+    assert.equal(crc32(data), checksum, name);
+    files.set(name, data.toString("utf8"));
+    position += 46 + nameLength;
+  }
+
+  return files;
+}
+
+describe("buildXlsx", () => {
+  it("zips the parts of a single-sheet workbook", () => {
+    const files = unzip(buildXlsx("Attendees", [["Email"]]));
+
+    assert.deepEqual(
+      [...files.keys()],
+      [
+        "[Content_Types].xml",
+        "_rels/.rels",
+        "xl/workbook.xml",
+        "xl/_rels/workbook.xml.rels",
+        "xl/worksheets/sheet1.xml",
+      ]
+    );
+    assert.match(files.get("xl/workbook.xml")!, /<sheet name="Attendees"/);
+  });
+
+  it("writes numbers as values and strings inline, skipping nulls", () => {
+    const sheet = unzip(
+      buildXlsx("Sheet", [
+        ["Name", "Seats"],
+        ["Ada & <Bob>", 2],
+        [null, 3],
+      ])
+    ).get("xl/worksheets/sheet1.xml")!;
+
+    assert.ok(
+      sheet.includes(
+        '<c r="A2" t="inlineStr"><is><t xml:space="preserve">Ada &amp; &lt;Bob&gt;</t></is></c><c r="B2"><v>2</v></c>'
+      )
+    );
+    assert.ok(sheet.includes('<row r="3"><c r="B3"><v>3</v></c></row>'));
+  });
+
+  it("names columns past Z with two letters", () => {
+    const row = Array.from({ length: 28 }, (_, i) => i);
+    const sheet = unzip(buildXlsx("Sheet", [row])).get(
+      "xl/worksheets/sheet1.xml"
+    )!;
+
+    assert.ok(sheet.includes('<c r="Z1"><v>25</v></c>'));
+    assert.ok(sheet.includes('<c r="AB1"><v>27</v></c>'));
+  });
+
+  it("drops characters XML can't hold and cleans the sheet name", () => {
+    const files = unzip(buildXlsx("Q1/Q2: attendees", [["a\u0000b"]]));
+
+    assert.match(files.get("xl/workbook.xml")!, /name="Q1 Q2  attendees"/);
+    assert.ok(files.get("xl/worksheets/sheet1.xml")!.includes(">ab</t>"));
+  });
+});
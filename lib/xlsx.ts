@@ -0,0 +1,156 @@
+/**
+ * XLSX Builder
+ * Writes single-sheet Office Open XML workbooks (ECMA-376) without a
+ * spreadsheet library: the minimal parts, zipped with node:zlib
+ */
+
+import { crc32, deflateRawSync } from "node:zlib";
+
+export type XlsxCell = string | number | null;
+
+/**
+ * MIME type of .xlsx files
+ */
+export const XLSX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SHEET_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const PACKAGE_RELS_NS =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+const DOC_RELS_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const CONTENT_TYPES_NS =
+  "http://schemas.openxmlformats.org/package/2006/content-types";
+const OFFICE_TYPE = "application/vnd.openxmlformats-officedocument";
+
+/**
+ * Utility: Escape text for XML, dropping characters XML 1.0 can't hold
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[^\t\n\r\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Utility: Column letters for a 0-based index (0 → A, 26 → AA)
+ */
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Utility: Worksheet XML; strings are inline so no shared string table
+ * is needed
+ */
+function buildSheet(rows: XlsxCell[][]): string {
+  const rowsXml = rows.map((cells, rowIndex) => {
+    const r = rowIndex + 1;
+    const cellsXml = cells.map((value, columnIndex) => {
+      const ref = `${columnName(columnIndex)}${r}`;
+
+      if (value === null) {
+        return "";
+      }
+
+      if (typeof value === "number") {
+        return `<c r="${ref}"><v>${value}</v></c>`;
+      }
+
+      const text = escapeXml(value);
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+    });
+
+    return `<row r="${r}">${cellsXml.join("")}</row>`;
+  });
+
+  return `${XML_HEADER}<worksheet xmlns="${SHEET_NS}"><sheetData>${rowsXml.join(
+    ""
+  )}</sheetData></worksheet>`;
+}
+
+/**
+ * Utility: Zip archive of the given files, deflated, with UTF-8 names
+ */
+function buildZip(files: { name: string; data: Buffer }[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8");
+    const compressed = deflateRawSync(file.data);
+    const checksum = crc32(file.data);
+
+    // Fields shared by the local and central headers, from "version needed"
+    const common = Buffer.alloc(26);
+    common.writeUInt16LE(20, 0); // version needed: 2.0
+    common.writeUInt16LE(0x0800, 2); // flags: UTF-8 names
+    common.writeUInt16LE(8, 4); // method: deflate
+    common.writeUInt16LE(0, 6); // time: 00:00
+    common.writeUInt16LE(0x21, 8); // date: 1980-01-01
+    common.writeUInt32LE(checksum, 10);
+    common.writeUInt32LE(compressed.length, 14);
+    common.writeUInt32LE(file.data.length, 18);
+    common.writeUInt16LE(name.length, 22);
+    common.writeUInt16LE(0, 24); // extra field length
+
+    const local = Buffer.alloc(4);
+    local.writeUInt32LE(0x04034b50, 0);
+    localParts.push(local, common, name, compressed);
+
+    const central = Buffer.alloc(6);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    // Comment length, disk number and attributes stay 0
+    const centralTail = Buffer.alloc(14);
+    centralTail.writeUInt32LE(offset, 10);
+    centralParts.push(central, common, centralTail, name);
+
+    offset += local.length + common.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Build XLSX
+ *
+ * @param sheetName - Worksheet tab name (at most 31 characters)
+ * @param rows - Rows of cells; the first row is usually the header
+ * @returns The workbook file
+ */
+export function buildXlsx(sheetName: string, rows: XlsxCell[][]): Buffer {
+  const name = escapeXml(sheetName.replace(/[\\/?*[\]:]/g, " ").slice(0, 31));
+
+  const parts = {
+    "[Content_Types].xml": `${XML_HEADER}<Types xmlns="${CONTENT_TYPES_NS}"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="${OFFICE_TYPE}.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="${OFFICE_TYPE}.spreadsheetml.worksheet+xml"/></Types>`,
+    "_rels/.rels": `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELS_NS}"><Relationship Id="rId1" Type="${DOC_RELS_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    "xl/workbook.xml": `${XML_HEADER}<workbook xmlns="${SHEET_NS}" xmlns:r="${DOC_RELS_NS}"><sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    "xl/_rels/workbook.xml.rels": `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELS_NS}"><Relationship Id="rId1" Type="${DOC_RELS_NS}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+    "xl/worksheets/sheet1.xml": buildSheet(rows),
+  };
+
+  return buildZip(
+    Object.entries(parts).map(([path, xml]) => ({
+      name: path,
+      data: Buffer.from(xml, "utf8"),
+    }))
+  );
+}
@@ -17,6 +17,10 @@ const nextConfig: NextConfig = {
   cacheComponents: true,
   experimental: {
     turbopackFileSystemCacheForDev: true,
+    serverActions: {
+      // Bulk imports upload a data file together with its images
+      bodySizeLimit: "20mb",
+    },
   },
   async rewrites() {
     return [
@@ -0,0 +1,127 @@
+import connectDB from "@/lib/mongodb";
+import { ApiKey, API_KEY_SCOPES, type ApiKeyScope } from "@/database";
+import { generateApiKey } from "@/lib/api-keys";
+
+/**
+ * API Key Management Script
+ * Issues, lists and revokes organizer API keys
+ *
+ * @example
+ * npm run api-keys -- create --name "Meetup sync" --owner ops@example.com
+ * npm run api-keys -- create --name "Bot" --owner a@b.co --scope events:write
+ * npm run api-keys -- create --name "CRM" --owner a@b.co --scope webhooks:manage
+ * npm run api-keys -- list
+ * npm run api-keys -- revoke devevent_AbCdEfGh
+ */
+const [command, ...args] = process.argv.slice(2);
+
+/**
+ * Utility: Read the value following a --flag
+ */
+function getOption(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+/**
+ * Create Key
+ * Prints the key once; only its hash is stored
+ */
+async function createKey() {
+  const name = getOption("name");
+  const owner = getOption("owner");
+  const scopes = (getOption("scope") ?? "events:write").split(",");
+
+  if (!name || !owner) {
+    throw new Error("Usage: create --name <name> --owner <email> [--scope s]");
+  }
+
+  const unknown = scopes.filter(
+    (scope) => !API_KEY_SCOPES.includes(scope as ApiKeyScope)
+  );
+  if (unknown.length > 0) {
+    const known = API_KEY_SCOPES.join(", ");
+    throw new Error(`Unknown scope(s): ${unknown.join(", ")}. Known: ${known}`);
+  }
+
+  const { key, prefix, keyHash } = generateApiKey();
+  await ApiKey.create({ name, owner, prefix, keyHash, scopes });
+
+  console.log(`✅ Created API key "${name}" for ${owner}\n`);
+  console.log(`   ${key}\n`);
+  console.log("   Store it now, it will not be shown again.\n");
+}
+
+/**
+ * List Keys
+ */
+async function listKeys() {
+  const keys = await ApiKey.find().sort({ createdAt: -1 }).lean().exec();
+
+  keys.forEach((apiKey) => {
+    const status = apiKey.revokedAt ? "revoked" : "active";
+    const lastUsed = apiKey.lastUsedAt?.toISOString() ?? "never";
+    const scopes = apiKey.scopes.join(", ");
+
+    console.log(
+      `   - ${apiKey.prefix}… ${apiKey.name} (${apiKey.owner}) [${scopes}]`
+    );
+    console.log(`     ${status}, last used ${lastUsed}`);
+  });
+  console.log(`   Found ${keys.length} API keys\n`);
+}
+
+/**
+ * Revoke Key
+ * Keys are identified by the prefix shown in listings
+ */
+async function revokeKey() {
+  const prefix = args[0];
+
+  if (!prefix) {
+    throw new Error("Usage: revoke <prefix>");
+  }
+
+  const revoked = await ApiKey.updateMany(
+    { prefix, revokedAt: null },
+    { revokedAt: new Date() }
+  );
+
+  if (revoked.modifiedCount === 0) {
+    throw new Error(`No active API key with prefix ${prefix}`);
+  }
+
+  console.log(`🔒 Revoked ${revoked.modifiedCount} API key(s)\n`);
+}
+
+/**
+ * Main Function
+ */
+async function main() {
+  try {
+    await connectDB();
+
+    switch (command) {
+      case "create":
+        await createKey();
+        break;
+      case "list":
+        await listKeys();
+        break;
+      case "revoke":
+        await revokeKey();
+        break;
+      default:
+        throw new Error("Usage: api-keys <create|list|revoke> [options]");
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ API key command failed:");
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run main function
+main();
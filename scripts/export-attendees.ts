@@ -0,0 +1,81 @@
+import { writeFile } from "node:fs/promises";
+import connectDB from "@/lib/mongodb";
+import { lookupApiKey } from "@/lib/api-keys";
+import { exportAttendees, getEventAttendees } from "@/lib/attendees";
+import { attendeeExportFormatSchema } from "@/lib/validation/attendees";
+
+/**
+ * Attendee Export Script
+ * Writes an event's attendees to a CSV, XLSX or JSON file. Like the API,
+ * it needs an attendees:read API key whose owner owns the event, passed
+ * with --key or DEVEVENT_API_KEY
+ *
+ * @example
+ * npm run export:attendees -- react-summit-2025 --key devevent_...
+ * npm run export:attendees -- react-summit-2025 --format xlsx --out badges.xlsx
+ */
+const args = process.argv.slice(2);
+
+/**
+ * Utility: Read the value following a --flag
+ */
+function getOption(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+const slug = args[0]?.startsWith("--") ? undefined : args[0];
+const key = getOption("key") ?? process.env.DEVEVENT_API_KEY;
+
+/**
+ * Main Function
+ */
+async function main() {
+  try {
+    const format = attendeeExportFormatSchema.safeParse(
+      getOption("format") ?? "csv"
+    );
+
+    if (!format.success) {
+      throw new Error(format.error.issues[0].message);
+    }
+
+    if (!slug || !key) {
+      throw new Error(
+        "Usage: export:attendees <slug> [--format csv|xlsx|json] [--out file] [--key key]"
+      );
+    }
+
+    await connectDB();
+
+    const auth = await lookupApiKey(key, "attendees:read");
+
+    if (!auth.ok) {
+      throw new Error(auth.message);
+    }
+
+    const result = await getEventAttendees(slug, auth.data.owner);
+
+    if (!result.ok) {
+      throw new Error(result.message);
+    }
+
+    const file = exportAttendees(result.data, format.data);
+    const out = getOption("out") ?? file.filename;
+    await writeFile(out, file.body);
+
+    const { confirmed, waitlisted } = result.data;
+    console.log(`✅ Exported ${confirmed + waitlisted} attendees`);
+    console.log(`   ${confirmed} confirmed, ${waitlisted} waitlisted`);
+    console.log(`   → ${out}\n`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Export failed:");
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run main function
+main();
@@ -0,0 +1,144 @@
+import { readFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import connectDB from "@/lib/mongodb";
+import { Event } from "@/database";
+import {
+  deleteImageFromCloudinary,
+  uploadImageToCloudinary,
+} from "@/lib/cloudinary";
+import {
+  getImportFormat,
+  importEventRows,
+  parseImportFile,
+  type EventImportHandlers,
+} from "@/lib/event-import";
+import { fetchImageFile, isImageUrl, readImageFile } from "@/lib/image-files";
+
+/**
+ * Event Import Script
+ * Bulk-creates events from a CSV or JSON file, owned by the --owner email so
+ * they can be edited from the app. Local image paths are resolved relative
+ * to the file. Pass --dry-run to only validate; dry runs need no owner
+ *
+ * @example
+ * npm run import:events -- lineup.csv --dry-run
+ * npm run import:events -- lineup.json --owner ops@example.com
+ */
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+
+/**
+ * Utility: Read the value following a --flag
+ */
+function getOption(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+const owner = getOption("owner")?.toLowerCase() ?? null;
+const path = args.find(
+  (arg, i) => !arg.startsWith("--") && args[i - 1] !== "--owner"
+);
+
+/**
+ * Create Event
+ * Like the createEvent action, minus cache revalidation and webhooks, which
+ * need the running app. Failures are returned so the other rows still run
+ */
+const createEvent: EventImportHandlers["createEvent"] = async (data, image) => {
+  let imageUrl: string | null = null;
+
+  try {
+    imageUrl = await uploadImageToCloudinary(image);
+    const event = await Event.create({ ...data, image: imageUrl, owner });
+    return { ok: true, data: { slug: event.slug } };
+  } catch (error) {
+    // Don't leave the uploaded image behind
+    if (imageUrl) {
+      await deleteImageFromCloudinary(imageUrl);
+    }
+
+    if (error instanceof Error && error.message.includes("E11000")) {
+      return {
+        ok: false,
+        code: "CONFLICT",
+        message: "An event with this title already exists",
+      };
+    }
+
+    return {
+      ok: false,
+      code: "UNKNOWN",
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+/**
+ * Main Function
+ */
+async function main() {
+  try {
+    const format = path ? getImportFormat(path) : null;
+
+    // Imported events need an owner, or nobody could edit or delete them
+    if (!path || !format || (!dryRun && !owner)) {
+      throw new Error(
+        "Usage: import:events <file.csv|file.json> --owner <email> [--dry-run]\n" +
+          "--owner is required unless --dry-run is given"
+      );
+    }
+
+    const rows = parseImportFile(await readFile(path, "utf8"), format);
+    const baseDir = dirname(resolve(path));
+
+    // Dry runs read the database too, to catch titles already taken
+    await connectDB();
+
+    console.log(
+      `📥 ${dryRun ? "Checking" : "Importing"} ${rows.length} events`
+    );
+    console.log(`   from ${path}\n`);
+
+    const report = await importEventRows(rows, {
+      dryRun,
+      slugExists: async (slug) => Boolean(await Event.exists({ slug })),
+      resolveImage: (source) =>
+        isImageUrl(source)
+          ? fetchImageFile(source)
+          : readImageFile(resolve(baseDir, source)),
+      createEvent,
+    });
+
+    report.rows.forEach((row) => {
+      const ok = row.status === "valid" || row.status === "created";
+      const title = row.title ?? "(untitled)";
+      const slug = row.slug ? ` → /events/${row.slug}` : "";
+
+      console.log(`   ${ok ? "✅" : "❌"} Row ${row.row}: ${title}${slug}`);
+      row.errors.forEach((error) => console.log(`      - ${error}`));
+    });
+
+    console.log("\n═══════════════════════════════════════════════════");
+    if (dryRun) {
+      console.log(
+        `✨ Dry run: ${report.succeeded} valid, ${report.failed} invalid`
+      );
+      console.log("   Run again without --dry-run to import them.");
+    } else {
+      console.log(
+        `✨ Imported ${report.succeeded} events, ${report.failed} failed`
+      );
+    }
+    console.log("═══════════════════════════════════════════════════\n");
+
+    process.exit(report.failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error("\n❌ Import failed:");
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run main function
+main();
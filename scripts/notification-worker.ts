@@ -0,0 +1,64 @@
+import connectDB from "@/lib/mongodb";
+import { processDueNotifications } from "@/lib/notifications";
+
+/**
+ * Notification Worker Script
+ * Emails attendees the notifications queued for them, such as booking
+ * confirmations, waitlist promotions and event cancellations, and retries
+ * failed sends. Run it once from cron, or keep it running with --watch
+ *
+ * @example
+ * npm run notifications:worker
+ * npm run notifications:worker -- --watch
+ */
+const watch = process.argv.includes("--watch");
+
+/**
+ * How often --watch checks for due notifications
+ */
+const POLL_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Utility: Send every due notification, batch by batch
+ */
+async function drain(): Promise<number> {
+  let total = 0;
+  let attempted: number;
+
+  do {
+    attempted = await processDueNotifications();
+    total += attempted;
+  } while (attempted > 0);
+
+  return total;
+}
+
+/**
+ * Main Function
+ */
+async function main() {
+  try {
+    await connectDB();
+
+    do {
+      const attempted = await drain();
+
+      if (attempted > 0 || !watch) {
+        console.log(`✉️  Attempted ${attempted} notification emails`);
+      }
+
+      if (watch) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+    } while (watch);
+
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Notification worker failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run main function
+main();
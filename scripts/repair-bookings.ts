@@ -0,0 +1,149 @@
+import connectDB from "@/lib/mongodb";
+import { Event, Booking } from "@/database";
+
+/**
+ * Booking Repair Script
+ * Finds bookings whose event no longer exists and seat counters that drifted
+ * from the confirmed bookings they track
+ *
+ * Runs as a dry run by default; pass --fix to apply the repairs
+ *
+ * @example
+ * npm run repair:bookings
+ * npm run repair:bookings -- --fix
+ */
+const shouldFix = process.argv.includes("--fix");
+
+/**
+ * Find Orphaned Bookings
+ * Bookings whose eventId does not match any event
+ */
+async function findOrphanedBookings() {
+  return Booking.aggregate<{ _id: unknown; eventId: unknown; email: string }>([
+    {
+      $lookup: {
+        from: Event.collection.name,
+        localField: "eventId",
+        foreignField: "_id",
+        as: "event",
+      },
+    },
+    { $match: { event: { $size: 0 } } },
+    { $project: { eventId: 1, email: 1 } },
+  ]);
+}
+
+/**
+ * Find Drifted Seat Counters
+ * Events whose bookedSeats differs from their confirmed booking count
+ */
+async function findDriftedSeatCounters() {
+  return Event.aggregate<{
+    _id: unknown;
+    title: string;
+    bookedSeats: number;
+    confirmed: number;
+  }>([
+    {
+      $lookup: {
+        from: Booking.collection.name,
+        let: { eventId: "$_id" },
+        pipeline: [
+          {
+            $match: {
+              $expr: { $eq: ["$eventId", "$$eventId"] },
+              // Bookings made before the waitlist existed have no status
+              status: { $ne: "waitlisted" },
+            },
+          },
+          { $count: "count" },
+        ],
+        as: "confirmedBookings",
+      },
+    },
+    {
+      $project: {
+        title: 1,
+        bookedSeats: { $ifNull: ["$bookedSeats", 0] },
+        confirmed: {
+          $ifNull: [{ $first: "$confirmedBookings.count" }, 0],
+        },
+      },
+    },
+    { $match: { $expr: { $ne: ["$bookedSeats", "$confirmed"] } } },
+  ]);
+}
+
+/**
+ * Main Repair Function
+ */
+async function repair() {
+  try {
+    console.log(
+      `🔧 Starting booking repair${shouldFix ? "" : " (dry run)"}...\n`
+    );
+
+    await connectDB();
+    console.log("✅ Connected to MongoDB\n");
+
+    // Orphaned bookings
+    console.log("🔍 Looking for orphaned bookings...");
+    const orphans = await findOrphanedBookings();
+
+    orphans.forEach((booking) => {
+      console.log(
+        `   - ${booking.email} → missing event ${String(booking.eventId)}`
+      );
+    });
+    console.log(`   Found ${orphans.length} orphaned bookings\n`);
+
+    if (shouldFix && orphans.length > 0) {
+      const deleted = await Booking.deleteMany({
+        _id: { $in: orphans.map((booking) => booking._id) },
+      });
+      console.log(`🗑️  Deleted ${deleted.deletedCount} orphaned bookings\n`);
+    }
+
+    // Seat counters
+    console.log("🔍 Checking event seat counters...");
+    const drifted = await findDriftedSeatCounters();
+
+    drifted.forEach((event) => {
+      console.log(
+        `   - ${event.title}: bookedSeats ${event.bookedSeats}, confirmed bookings ${event.confirmed}`
+      );
+    });
+    console.log(`   Found ${drifted.length} drifted counters\n`);
+
+    if (shouldFix) {
+      for (const event of drifted) {
+        await Event.updateOne(
+          { _id: event._id },
+          { bookedSeats: event.confirmed }
+        );
+      }
+
+      if (drifted.length > 0) {
+        console.log(`✅ Synced ${drifted.length} seat counters\n`);
+      }
+    }
+
+    console.log("═══════════════════════════════════════════════════");
+    if (shouldFix) {
+      console.log("✨ Repair completed successfully!");
+    } else {
+      console.log("✨ Dry run completed, nothing was changed.");
+      console.log("   Run again with --fix to apply the repairs.");
+    }
+    console.log("═══════════════════════════════════════════════════\n");
+
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Repair failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run repair function
+repair();
@@ -81,6 +81,7 @@ const sampleEvents = [
     ],
     organizer: "Microsoft",
     tags: ["typescript", "javascript", "programming", "types"],
+    capacity: 30,
   },
   {
     title: "Web Performance Masterclass",
@@ -234,6 +235,12 @@ async function seed() {
         totalBookings++;
       }
 
+      // Keep the seat counter in sync with the seeded bookings
+      await Event.updateOne(
+        { _id: event._id },
+        { bookedSeats: emailsForEvent.length }
+      );
+
       console.log(
         `   - Created ${emailsForEvent.length} bookings for "${event.title}"`
       );
@@ -0,0 +1,60 @@
+import connectDB from "@/lib/mongodb";
+import { Event } from "@/database";
+
+/**
+ * Event Owner Script
+ * Assigns an owner to events created before organizers signed in, so that
+ * owner can edit, delete and export them. Existing owners are kept unless
+ * --force is given
+ *
+ * @example
+ * npm run events:owner -- react-summit-2025 ops@example.com
+ * npm run events:owner -- --unowned ops@example.com
+ * npm run events:owner -- react-summit-2025 new@example.com --force
+ */
+const args = process.argv.slice(2);
+const [target, owner] = args.filter((arg) => arg !== "--force");
+const force = args.includes("--force");
+
+/**
+ * Main Function
+ */
+async function main() {
+  try {
+    if (!target || !owner || !owner.includes("@")) {
+      throw new Error(
+        "Usage: events:owner <slug|--unowned> <owner email> [--force]"
+      );
+    }
+
+    await connectDB();
+
+    const filter =
+      target === "--unowned"
+        ? { owner: null }
+        : { slug: target, ...(!force && { owner: null }) };
+
+    const updated = await Event.updateMany(filter, {
+      owner: owner.toLowerCase(),
+    });
+
+    if (updated.matchedCount === 0) {
+      throw new Error(
+        target === "--unowned"
+          ? "No events without an owner"
+          : `No event '${target}'${force ? "" : " without an owner"}`
+      );
+    }
+
+    console.log(`✅ Assigned ${updated.modifiedCount} event(s) to ${owner}\n`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Assigning owner failed:");
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run main function
+main();
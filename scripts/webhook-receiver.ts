@@ -0,0 +1,67 @@
+import { createServer } from "node:http";
+import { verifyWebhookSignature } from "@/lib/webhooks";
+
+/**
+ * Webhook Receiver Script
+ * Local endpoint for testing webhooks: verifies each delivery's signature
+ * and prints its payload. Webhook URLs must normally be public https
+ * addresses; set WEBHOOKS_ALLOW_LOCAL=true in the app's and the webhook
+ * worker's .env, then register http://localhost:4000 as the webhook URL
+ *
+ * @example
+ * npm run webhooks:receiver -- --secret whsec_...
+ * npm run webhooks:receiver -- --secret whsec_... --port 4001 --fail
+ */
+const args = process.argv.slice(2);
+
+/**
+ * Utility: Read the value following a --flag
+ */
+function getOption(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+const secret = getOption("secret") ?? process.env.WEBHOOK_SECRET;
+const port = Number(getOption("port") ?? 4000);
+
+// Answer 500 to everything, to watch the retries
+const fail = args.includes("--fail");
+
+if (!secret) {
+  console.error("❌ Pass the webhook secret with --secret or WEBHOOK_SECRET");
+  process.exit(1);
+}
+
+const server = createServer(async (request, response) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk);
+  }
+  const body = Buffer.concat(chunks).toString("utf8");
+
+  const header = (name: string) => String(request.headers[name] ?? "");
+  const valid = verifyWebhookSignature(
+    secret,
+    header("x-devevent-timestamp"),
+    body,
+    header("x-devevent-signature")
+  );
+
+  const event = header("x-devevent-event");
+  const delivery = header("x-devevent-delivery");
+  console.log(`${valid ? "✅" : "❌"} ${event} (delivery ${delivery})`);
+
+  if (!valid) {
+    console.log("   Signature mismatch or stale timestamp\n");
+    response.writeHead(401).end();
+    return;
+  }
+
+  console.log(JSON.stringify(JSON.parse(body), null, 2) + "\n");
+  response.writeHead(fail ? 500 : 204).end();
+});
+
+server.listen(port, () => {
+  console.log(`👂 Listening for webhooks on http://localhost:${port}\n`);
+});
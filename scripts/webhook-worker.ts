@@ -0,0 +1,63 @@
+import connectDB from "@/lib/mongodb";
+import { processDueDeliveries } from "@/lib/webhooks";
+
+/**
+ * Webhook Worker Script
+ * Retries webhook deliveries whose backoff has elapsed. Run it once from
+ * cron, or keep it running with --watch
+ *
+ * @example
+ * npm run webhooks:worker
+ * npm run webhooks:worker -- --watch
+ */
+const watch = process.argv.includes("--watch");
+
+/**
+ * How often --watch checks for due deliveries
+ */
+const POLL_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Utility: Attempt every due delivery, batch by batch
+ */
+async function drain(): Promise<number> {
+  let total = 0;
+  let attempted: number;
+
+  do {
+    attempted = await processDueDeliveries();
+    total += attempted;
+  } while (attempted > 0);
+
+  return total;
+}
+
+/**
+ * Main Function
+ */
+async function main() {
+  try {
+    await connectDB();
+
+    do {
+      const attempted = await drain();
+
+      if (attempted > 0 || !watch) {
+        console.log(`📨 Attempted ${attempted} webhook deliveries`);
+      }
+
+      if (watch) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+    } while (watch);
+
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Webhook worker failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run main function
+main();